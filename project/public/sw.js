@@ -0,0 +1,125 @@
+// Keeps the app working without coverage. The build writes its list of files
+// to build-manifest.json and all of them are cached up front, including the
+// chunks that are only loaded on demand. Each build gets its own cache, named
+// after its entry chunk, and the caches of older builds are deleted.
+const CACHE_PREFIX = 'driver-timesheet-';
+const SHELL_FILES = ['./', 'manifest.webmanifest', 'icon.svg'];
+const BUILD_MANIFEST = 'build-manifest.json';
+
+const toUrl = path => new URL(path, self.registration.scope).href;
+
+// Built files have a hash in their name, so a cached copy never goes stale.
+const isHashedFile = url => url.startsWith(toUrl('assets/'));
+
+const getBuild = async () => {
+  const response = await fetch(toUrl(BUILD_MANIFEST), { cache: 'no-store' });
+  if (!response.ok) return null;
+
+  const chunks = Object.values(await response.json());
+  const entry = chunks.find(chunk => chunk.isEntry);
+  if (!entry) return null;
+
+  return {
+    cacheName: CACHE_PREFIX + entry.file.replace('assets/', ''),
+    files: chunks.flatMap(chunk => [chunk.file, ...(chunk.css || []), ...(chunk.assets || [])]).map(toUrl),
+  };
+};
+
+const getCacheNames = async () => (await caches.keys()).filter(name => name.startsWith(CACHE_PREFIX));
+
+// The newest cache, which is the one of the deployed build.
+const openCurrentCache = async () => {
+  const names = await getCacheNames();
+  return caches.open(names.length > 0 ? names[names.length - 1] : CACHE_PREFIX + 'shell');
+};
+
+const deleteOldCaches = async () => {
+  const names = await getCacheNames();
+  await Promise.all(names.slice(0, -1).map(name => caches.delete(name)));
+};
+
+// Fills the cache of the deployed build when it does not exist yet. Built
+// files that did not change are copied from the older caches.
+const cacheBuild = async () => {
+  const build = await getBuild();
+  if (!build || (await getCacheNames()).includes(build.cacheName)) return;
+
+  const cache = await caches.open(build.cacheName);
+  try {
+    await cache.addAll(SHELL_FILES.map(toUrl));
+    await Promise.all(build.files.map(async url => {
+      const cached = await caches.match(url);
+      await (cached ? cache.put(url, cached) : cache.add(url));
+    }));
+  } catch (error) {
+    // A half-filled cache would be taken for a complete one next time.
+    await caches.delete(build.cacheName);
+    throw error;
+  }
+  await deleteOldCaches();
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    await cacheBuild();
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    await deleteOldCaches();
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) return;
+
+  // The page itself comes from the network when there is coverage, so a new
+  // deploy is picked up, and from the cache otherwise.
+  if (request.mode === 'navigate') {
+    event.respondWith((async () => {
+      try {
+        const response = await fetch(request);
+        const cache = await openCurrentCache();
+        await cache.put(toUrl('./'), response.clone());
+        event.waitUntil(cacheBuild().catch(() => undefined));
+        return response;
+      } catch {
+        return (await caches.match(toUrl('./'))) || Response.error();
+      }
+    })());
+    return;
+  }
+
+  // Hashed files are served from the cache. The rest (manifest, icon) are
+  // served from it too but refreshed in the background for the next time.
+  event.respondWith((async () => {
+    const cached = await caches.match(request);
+    if (cached && isHashedFile(request.url)) return cached;
+
+    const refresh = (async () => {
+      const response = await fetch(request);
+      if (response.ok) {
+        const cache = await openCurrentCache();
+        await cache.put(request, response.clone());
+      }
+      return response;
+    })();
+
+    if (!cached) return refresh;
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  })());
+});
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close();
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+    if (windows.length > 0) return windows[0].focus();
+    return self.clients.openWindow(toUrl('./'));
+  })());
+});
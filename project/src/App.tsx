@@ -1,14 +1,10 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
   format,
-  getDay,
-  addMonths,
-  subMonths,
-  getMonth,
+  addDays,
+  subDays,
   getYear,
-  isBefore,
-  isAfter,
-  isSameDay,
+  parseISO,
 } from 'date-fns';
 import { es } from 'date-fns/locale';
 import {
@@ -27,169 +23,453 @@ import {
   X,
   FileText,
   LogOut,
+  Euro,
+  KeyRound,
+  DatabaseBackup,
+  Sheet,
+  Plus,
+  Minus,
+  CalendarDays,
+  ListChecks,
+  CalendarRange,
+  Receipt,
+  Landmark,
+  UserCircle,
+  UserPlus,
+  Route,
+  Coins,
+  AlertTriangle,
+  Coffee,
+  Timer,
+  Bell,
 } from 'lucide-react';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-
-const CUTOFF_DAY = 26;
-
-interface DayData {
-  date: string;
-  startTime: string;
-  endTime: string;
-  dietaInt: number;
-  extra: number;
-  pernocta: number;
-  propinas: number;
-}
-
-interface TimesheetData {
-  [date: string]: DayData;
-}
-
-interface MonthlySummary {
-  totalHours: number;
-  daysWorked: number;
-  dietaNormalUnits: number;
-  dietaFindeUnits: number;
-  nocturnidadMoney: number;
-  dietaIntMoney: number;
-  extraMoney: number;
-  pernoctaMoney: number;
-  propinasMoney: number;
-  totalMoney: number;
+import { RateTable, getRatesForDate, loadRateTables, saveRateTables } from './rates';
+import { hasPin, createPinRecord, savePinRecord, attemptLogin, getLockedUntil, isValidPin, LoginResult } from './auth';
+import {
+  Account,
+  AccountPreferences,
+  loadAccounts,
+  createAccount,
+  getLastAccountId,
+  setLastAccountId,
+  loadPreferences,
+  savePreferences,
+} from './accounts';
+import { TimesheetStore, unlockTimesheetStore } from './storage';
+import { DayData, TimesheetData, Trip, WorkBreak, WorkInterval, createEmptyDay, createEmptyInterval, formatBreaks } from './types';
+import { HolidaySettings, loadHolidaySettings, saveHolidaySettings } from './holidays';
+import RatesModal from './components/RatesModal';
+import HolidaysModal from './components/HolidaysModal';
+import { DAY_STATUSES, DayStatusSettings, describeStatusCounts, getStatusInfo, loadDayStatusSettings, saveDayStatusSettings } from './dayStatus';
+import DayStatusModal from './components/DayStatusModal';
+import ChangePinModal from './components/ChangePinModal';
+import BackupModal from './components/BackupModal';
+import { BackupSettings } from './backup';
+import CsvModal from './components/CsvModal';
+import { ColumnMapping, toCsv, formatCsvNumber, groupDaysByMonth, mergeImportedDays } from './csv';
+import {
+  FiscalDateRange,
+  PeriodDefinition,
+  getFiscalPeriod,
+  getFiscalYearRange,
+  getFiscalPeriodsInRange,
+  getRangeDates,
+  getMonthKeysInRange,
+  isDateStrInRange,
+  pickDaysInRange,
+  toDateStr,
+  loadPeriodDefinitions,
+  savePeriodDefinitions,
+} from './fiscal';
+import PeriodsModal from './components/PeriodsModal';
+import { calculateRangeDays, getOvertimeContextRange } from './overtime';
+import { PayslipMap, PayslipRecord, getExpectedAmounts, getTotalDifference, reconcile } from './payslip';
+import PayslipModal from './components/PayslipModal';
+import {
+  NetPayEstimate,
+  NetPaySettings,
+  EMPTY_NET_PAY_ESTIMATE,
+  estimateNetPay,
+  getBaseSalaryForRange,
+  loadNetPaySettings,
+  saveNetPaySettings,
+} from './netPay';
+import NetPayModal from './components/NetPayModal';
+import {
+  PeriodBreakdown,
+  INCOME_CONCEPTS,
+  COMPARISON_METRICS,
+  summarizeByPeriod,
+  getPercentChange,
+  formatMetric,
+} from './annual';
+import { BarChart, LineChart } from './components/Charts';
+import { DriverProfile, EMPTY_PROFILE, describeProfile, toFileNamePart } from './profile';
+import ProfileModal from './components/ProfileModal';
+import TripsModal from './components/TripsModal';
+import BreaksModal from './components/BreaksModal';
+import {
+  Expense,
+  ExpenseSummary,
+  ReceiptImage,
+  describeCategoryTotals,
+  getCategoryLabel,
+  getExpensesInRange,
+  getPaymentMethodInfo,
+  summarizeExpenses,
+} from './expenses';
+import ExpensesModal from './components/ExpensesModal';
+import {
+  ReminderSettings,
+  getDueReminders,
+  loadReminderLog,
+  loadReminderSettings,
+  saveReminderLog,
+  saveReminderSettings,
+  showReminder,
+} from './reminders';
+import RemindersModal from './components/RemindersModal';
+import { checkCompliance, getComplianceContextRange, groupIssuesByDate } from './compliance';
+import {
+  ActiveShift,
+  MAX_SHIFT_MS,
+  clockIn,
+  clockOut,
+  formatElapsed,
+  getShiftElapsedMs,
+  loadActiveShift,
+  saveActiveShift,
+} from './clock';
+import CompliancePanel from './components/CompliancePanel';
+import {
+  CalculationContext,
+  PeriodSummary,
+  EMPTY_SUMMARY,
+  summarizeDays,
+  getDayTotal,
+} from './calculations';
+
+const CONCEPT_COLORS: { [key: string]: string } = {
+  dietas: '#2563eb',
+  nocturnidad: '#7c3aed',
+  extras: '#059669',
+  overtime: '#ea580c',
+  kilometraje: '#0891b2',
+  status: '#64748b',
+};
+
+interface AnnualBreakdown {
+  periods: PeriodBreakdown[];
+  previousPeriods: PeriodBreakdown[];
+  previousSummary: PeriodSummary;
 }
 
-interface FiscalDateRange {
-  startDate: Date;
-  endDate: Date;
-  startMonthKey: string;
-  endMonthKey: string;
-}
+const EMPTY_ANNUAL_BREAKDOWN: AnnualBreakdown = { periods: [], previousPeriods: [], previousSummary: EMPTY_SUMMARY };
 
 function App() {
+  const [accounts, setAccounts] = useState<Account[]>(() => loadAccounts());
+  const [accountId, setAccountId] = useState(() => getLastAccountId());
+  const [newAccountName, setNewAccountName] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [pinInput, setPinInput] = useState('');
+  const [pinConfirm, setPinConfirm] = useState('');
+  const [isPinSetup, setIsPinSetup] = useState(() => !hasPin(accountId));
+  const [loginError, setLoginError] = useState('');
+  const [lockedUntil, setLockedUntil] = useState(() => getLockedUntil(accountId));
+  const [now, setNow] = useState(() => Date.now());
+  const [showChangePin, setShowChangePin] = useState(false);
+  const [store, setStore] = useState<TimesheetStore | null>(null);
+  const [annualSummary, setAnnualSummary] = useState<PeriodSummary>(EMPTY_SUMMARY);
+  const [annualNetPay, setAnnualNetPay] = useState<NetPayEstimate>(EMPTY_NET_PAY_ESTIMATE);
+  const [annualBreakdown, setAnnualBreakdown] = useState<AnnualBreakdown>(EMPTY_ANNUAL_BREAKDOWN);
   const [currentDate, setCurrentDate] = useState(new Date());
-  const [darkMode, setDarkMode] = useState(false);
-  const [showPropinas, setShowPropinas] = useState(true);
+  const [darkMode, setDarkMode] = useState(() => loadPreferences(accountId).darkMode);
+  const [showPropinas, setShowPropinas] = useState(() => loadPreferences(accountId).showPropinas);
   const [allData, setAllData] = useState<TimesheetData>({});
   const [showAnnualSummary, setShowAnnualSummary] = useState(false);
   const [showPdfExport, setShowPdfExport] = useState(false);
   const [pdfStartDate, setPdfStartDate] = useState('');
   const [pdfEndDate, setPdfEndDate] = useState('');
+  const [pdfSignatures, setPdfSignatures] = useState(false);
+  const [rateTables, setRateTables] = useState<RateTable[]>(() => loadRateTables(accountId));
+  const [showRates, setShowRates] = useState(false);
+  const [holidaySettings, setHolidaySettings] = useState<HolidaySettings>(() => loadHolidaySettings(accountId));
+  const [showHolidays, setShowHolidays] = useState(false);
+  const [statusSettings, setStatusSettings] = useState<DayStatusSettings>(() => loadDayStatusSettings(accountId));
+  const [showStatuses, setShowStatuses] = useState(false);
+  const [periodDefinitions, setPeriodDefinitions] = useState<PeriodDefinition[]>(() => loadPeriodDefinitions(accountId));
+  const [showPeriods, setShowPeriods] = useState(false);
+  const [showBackup, setShowBackup] = useState(false);
+  const [showCsv, setShowCsv] = useState(false);
+  const [payslips, setPayslips] = useState<PayslipMap>({});
+  const [showPayslip, setShowPayslip] = useState(false);
+  const [netPaySettings, setNetPaySettings] = useState<NetPaySettings>(() => loadNetPaySettings(accountId));
+  const [showNetPay, setShowNetPay] = useState(false);
+  const [profile, setProfile] = useState<DriverProfile>(EMPTY_PROFILE);
+  const [showProfile, setShowProfile] = useState(false);
+  const [tripsDate, setTripsDate] = useState<string | null>(null);
+  const [breaksDate, setBreaksDate] = useState<string | null>(null);
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [expensesDate, setExpensesDate] = useState<string | null>(null);
+  const [activeShift, setActiveShift] = useState<ActiveShift | null>(() => loadActiveShift(accountId));
+  const [reminderSettings, setReminderSettings] = useState<ReminderSettings>(() => loadReminderSettings(accountId));
+  const [showReminders, setShowReminders] = useState(false);
+
+  const calculationContext = useMemo<CalculationContext>(
+    () => ({ rateTables, holidays: holidaySettings, statuses: statusSettings, periods: periodDefinitions }),
+    [rateTables, holidaySettings, statusSettings, periodDefinitions],
+  );
+
+  const range = useMemo(() => getFiscalPeriod(currentDate, periodDefinitions), [currentDate, periodDefinitions]);
 
   useEffect(() => {
-    const storedPin = localStorage.getItem('app-pin');
-    if (storedPin) {
-      setIsAuthenticated(true);
-    }
-  }, []);
+    if (lockedUntil <= now) return;
 
-  const handleLogin = () => {
-    if (pinInput.length === 4 && /^\d+$/.test(pinInput)) {
-      localStorage.setItem('app-pin', pinInput);
-      setIsAuthenticated(true);
-      setPinInput('');
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil, now]);
+
+  const isLocked = lockedUntil > now;
+
+  useEffect(() => {
+    if (!activeShift) return;
+
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [activeShift]);
+
+  // Only possible while logged out, so no data of the previous account is
+  // loaded when its settings are swapped for the new one's.
+  const selectAccount = (id: string) => {
+    const preferences = loadPreferences(id);
+    setAccountId(id);
+    setLastAccountId(id);
+    setDarkMode(preferences.darkMode);
+    setShowPropinas(preferences.showPropinas);
+    setRateTables(loadRateTables(id));
+    setHolidaySettings(loadHolidaySettings(id));
+    setStatusSettings(loadDayStatusSettings(id));
+    setPeriodDefinitions(loadPeriodDefinitions(id));
+    setNetPaySettings(loadNetPaySettings(id));
+    setActiveShift(loadActiveShift(id));
+    setReminderSettings(loadReminderSettings(id));
+    setIsPinSetup(!hasPin(id));
+    setLockedUntil(getLockedUntil(id));
+    setNow(Date.now());
+    setPinInput('');
+    setPinConfirm('');
+    setLoginError('');
+  };
+
+  const handleCreateAccount = () => {
+    if (!newAccountName?.trim()) {
+      alert('Escribe el nombre del conductor');
+      return;
     }
+
+    const updated = createAccount(newAccountName);
+    setAccounts(updated);
+    setNewAccountName(null);
+    selectAccount(updated[updated.length - 1].id);
   };
 
-  const handleLogout = () => {
-    setIsAuthenticated(false);
-    localStorage.removeItem('app-pin');
-    setPinInput('');
+  const updatePreferences = (changes: Partial<AccountPreferences>) => {
+    const preferences = { darkMode, showPropinas, ...changes };
+    savePreferences(accountId, preferences);
+    setDarkMode(preferences.darkMode);
+    setShowPropinas(preferences.showPropinas);
   };
 
-  const getFiscalMonthRange = (date: Date): FiscalDateRange => {
-    const year = getYear(date);
-    const month = getMonth(date);
+  const handleLogin = async () => {
+    if (!isValidPin(pinInput) || isLocked) return;
 
-    let startDate: Date;
-    let startMonthKey: string;
-    let endMonthKey: string;
+    // Opening the store can fail on IndexedDB or on old data being migrated.
+    const unlockError = 'No se pudieron abrir los datos de este dispositivo. Inténtalo de nuevo.';
 
-    if (month === 0) {
-      startDate = new Date(year - 1, 11, CUTOFF_DAY);
-      startMonthKey = `${year - 1}-${String(12).padStart(2, '0')}`;
-    } else {
-      startDate = new Date(year, month - 1, CUTOFF_DAY);
-      startMonthKey = format(startDate, 'yyyy-MM');
+    if (isPinSetup) {
+      if (pinInput !== pinConfirm) {
+        setLoginError('Los PIN no coinciden');
+        return;
+      }
+      // The PIN is only kept once the store opened with it, so a failed first
+      // open leaves the account still waiting for its PIN to be set up.
+      try {
+        const record = await createPinRecord(pinInput);
+        setStore(await unlockTimesheetStore(accountId, pinInput));
+        savePinRecord(accountId, record);
+      } catch {
+        setLoginError(unlockError);
+        return;
+      }
+      setIsPinSetup(false);
+      setIsAuthenticated(true);
+      setPinInput('');
+      setPinConfirm('');
+      setLoginError('');
+      return;
     }
 
-    const endDate = new Date(year, month, CUTOFF_DAY - 1);
-    endMonthKey = format(endDate, 'yyyy-MM');
+    const result = await attemptLogin(accountId, pinInput);
+    setPinInput('');
+
+    if (result.ok) {
+      try {
+        setStore(await unlockTimesheetStore(accountId, pinInput));
+      } catch {
+        setLoginError(unlockError);
+        return;
+      }
+      setIsAuthenticated(true);
+      setLoginError('');
+      return;
+    }
 
-    return { startDate, endDate, startMonthKey, endMonthKey };
+    setLockedUntil(result.lockedUntil);
+    setNow(Date.now());
+    setLoginError(
+      result.lockedUntil > Date.now()
+        ? 'Demasiados intentos fallidos'
+        : `PIN incorrecto. Intentos restantes: ${result.attemptsLeft}`,
+    );
   };
 
-  const loadFiscalMonthData = (date: Date): TimesheetData => {
-    const range = getFiscalMonthRange(date);
-    const combinedData: TimesheetData = {};
-
-    const startMonthData = localStorage.getItem(`timesheet-${range.startMonthKey}`);
-    const endMonthData = localStorage.getItem(`timesheet-${range.endMonthKey}`);
+  const handleLogout = () => {
+    setIsAuthenticated(false);
+    setShowChangePin(false);
+    setPinInput('');
+    setStore(null);
+    setAllData({});
+    setPayslips({});
+    setProfile(EMPTY_PROFILE);
+    setExpenses([]);
+    setShowAnnualSummary(false);
+    setAnnualSummary(EMPTY_SUMMARY);
+    setAnnualNetPay(EMPTY_NET_PAY_ESTIMATE);
+    setAnnualBreakdown(EMPTY_ANNUAL_BREAKDOWN);
+  };
 
-    if (startMonthData) {
-      const parsed = JSON.parse(startMonthData);
-      Object.keys(parsed).forEach((dateStr: string) => {
-        const dayNum = parseInt(dateStr.split('-')[2]);
-        if (dayNum >= CUTOFF_DAY) {
-          combinedData[dateStr] = parsed[dateStr];
-        }
-      });
+  const handleChangePin = async (currentPin: string, newPin: string): Promise<LoginResult> => {
+    const result = await attemptLogin(accountId, currentPin);
+    if (!result.ok || !store) return result;
+
+    // The new PIN's hash is ready before the data is re-encrypted, so it is
+    // saved right after the rekey commits and the PIN check always matches
+    // the key the data is encrypted with.
+    try {
+      const pinRecord = await createPinRecord(newPin);
+      const rekeyedStore = await store.rekey(newPin);
+      savePinRecord(accountId, pinRecord);
+      setStore(rekeyedStore);
+    } catch {
+      alert('No se pudieron volver a cifrar los datos. El PIN no se ha cambiado.');
     }
+    return result;
+  };
 
-    if (endMonthData) {
-      const parsed = JSON.parse(endMonthData);
-      Object.keys(parsed).forEach((dateStr: string) => {
-        const dayNum = parseInt(dateStr.split('-')[2]);
-        if (dayNum < CUTOFF_DAY) {
-          combinedData[dateStr] = parsed[dateStr];
-        }
-      });
+  const loadRangeData = async (timesheetStore: TimesheetStore, startDate: Date, endDate: Date): Promise<TimesheetData> => {
+    const monthData: TimesheetData = {};
+    for (const monthKey of getMonthKeysInRange(startDate, endDate)) {
+      Object.assign(monthData, await timesheetStore.readMonth(monthKey));
     }
 
-    return combinedData;
+    return pickDaysInRange(monthData, startDate, endDate);
   };
 
-  const saveFiscalMonthData = (date: Date, data: TimesheetData) => {
-    const range = getFiscalMonthRange(date);
+  // Besides the period itself, loads the rest of the weeks and periods it
+  // touches, which decide its overtime, and the days its driving and rest
+  // checks look back and ahead to.
+  const getPeriodDataRange = (period: FiscalDateRange): { startDate: Date; endDate: Date } => {
+    const overtimeRange = getOvertimeContextRange(period.startDate, period.endDate, calculationContext);
+    const complianceRange = getComplianceContextRange(period.startDate, period.endDate);
+    return {
+      startDate: overtimeRange.startDate < complianceRange.startDate ? overtimeRange.startDate : complianceRange.startDate,
+      endDate: overtimeRange.endDate > complianceRange.endDate ? overtimeRange.endDate : complianceRange.endDate,
+    };
+  };
 
-    const startMonthData: TimesheetData = {};
-    const endMonthData: TimesheetData = {};
+  const loadPeriodData = async (timesheetStore: TimesheetStore, period: FiscalDateRange): Promise<TimesheetData> => {
+    const { startDate, endDate } = getPeriodDataRange(period);
+    return loadRangeData(timesheetStore, startDate, endDate);
+  };
 
+  const saveFiscalMonthData = async (timesheetStore: TimesheetStore, data: TimesheetData) => {
+    const dataByMonth: { [monthKey: string]: TimesheetData } = {};
+
+    // Each day is stored in the bucket of its own calendar month, so a save that
+    // races a month change can never write days into another period's bucket.
     Object.keys(data).forEach((dateStr: string) => {
-      const dayNum = parseInt(dateStr.split('-')[2]);
-      if (dayNum >= CUTOFF_DAY) {
-        startMonthData[dateStr] = data[dateStr];
-      } else {
-        endMonthData[dateStr] = data[dateStr];
-      }
+      const monthKey = dateStr.substring(0, 7);
+      dataByMonth[monthKey] = { ...dataByMonth[monthKey], [dateStr]: data[dateStr] };
     });
 
-    if (Object.keys(startMonthData).length > 0) {
-      const existing = localStorage.getItem(`timesheet-${range.startMonthKey}`);
-      const merged = { ...JSON.parse(existing || '{}'), ...startMonthData };
-      localStorage.setItem(`timesheet-${range.startMonthKey}`, JSON.stringify(merged));
-    }
-
-    if (Object.keys(endMonthData).length > 0) {
-      const existing = localStorage.getItem(`timesheet-${range.endMonthKey}`);
-      const merged = { ...JSON.parse(existing || '{}'), ...endMonthData };
-      localStorage.setItem(`timesheet-${range.endMonthKey}`, JSON.stringify(merged));
+    // readMonth throws if the stored month cannot be decrypted, which aborts
+    // the write instead of replacing unreadable history with the current edits.
+    const merged: { [monthKey: string]: TimesheetData } = {};
+    for (const monthKey of Object.keys(dataByMonth)) {
+      const existing = await timesheetStore.readMonth(monthKey);
+      merged[monthKey] = { ...existing, ...dataByMonth[monthKey] };
     }
+    await timesheetStore.writeMonths(merged);
   };
 
   useEffect(() => {
-    const fiscalData = loadFiscalMonthData(currentDate);
-    setAllData(fiscalData);
-  }, [currentDate]);
+    if (!store) return;
+
+    let cancelled = false;
+    loadPeriodData(store, range)
+      .then(fiscalData => {
+        if (!cancelled) setAllData(fiscalData);
+      })
+      .catch(() => alert('No se pudieron descifrar los datos de este mes'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [range, store]);
+
+  useEffect(() => {
+    if (!store) return;
+
+    let cancelled = false;
+    store.readEncryptedMeta<PayslipMap>('payslips')
+      .then(stored => {
+        if (!cancelled) setPayslips(stored ?? {});
+      })
+      .catch(() => alert('No se pudieron descifrar las nóminas guardadas'));
+    store.readEncryptedMeta<DriverProfile>('profile')
+      .then(stored => {
+        if (!cancelled) setProfile({ ...EMPTY_PROFILE, ...stored });
+      })
+      .catch(() => alert('No se pudo descifrar el perfil'));
+    store.readEncryptedMeta<Expense[]>('expenses')
+      .then(stored => {
+        if (!cancelled) setExpenses(stored ?? []);
+      })
+      .catch(() => alert('No se pudieron descifrar los gastos'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  // Every edit starts its own read-merge-write of the months it touches. They
+  // run one after another, so an older snapshot can never be written after a
+  // newer one; a failed write does not stop the ones queued behind it.
+  const writeQueue = useRef<Promise<void>>(Promise.resolve());
+
+  const enqueueWrite = (write: () => Promise<void>): Promise<void> => {
+    const queued = writeQueue.current.then(write);
+    writeQueue.current = queued.catch(() => undefined);
+    return queued;
+  };
 
   useEffect(() => {
-    if (Object.keys(allData).length > 0) {
-      saveFiscalMonthData(currentDate, allData);
+    if (store && Object.keys(allData).length > 0) {
+      enqueueWrite(() => saveFiscalMonthData(store, allData)).catch(() => alert('No se pudieron guardar los cambios'));
     }
-  }, [allData, currentDate]);
+  }, [allData]);
 
   useEffect(() => {
     if (darkMode) {
@@ -199,156 +479,65 @@ function App() {
     }
   }, [darkMode]);
 
-  const calculateHours = (startTime: string, endTime: string): number => {
-    if (!startTime || !endTime) return 0;
-
-    const [startHour, startMin] = startTime.split(':').map(Number);
-    const [endHour, endMin] = endTime.split(':').map(Number);
-
-    let startMinutes = startHour * 60 + startMin;
-    let endMinutes = endHour * 60 + endMin;
-
-    if (endMinutes <= startMinutes) {
-      endMinutes += 24 * 60;
-    }
-
-    return (endMinutes - startMinutes) / 60;
-  };
-
-  const calculateDietaNormal = (hours: number): number => {
-    if (hours === 0) return 0;
-    if (hours > 12) return 2;
-    return 1;
-  };
-
-  const calculateDietaFinde = (hours: number): number => {
-    if (hours <= 3) return 0;
-    if (hours > 12) return 2;
-    return 1;
-  };
-
-  const calculateNocturnidad = (endTime: string): number => {
-    if (!endTime) return 0;
-
-    const [hour] = endTime.split(':').map(Number);
-
-    if (hour >= 22 || hour <= 2) {
-      return 20;
-    }
-
-    if (hour >= 3 && hour <= 9) {
-      return 40;
-    }
-
-    return 0;
-  };
-
-  const getAllTimeSheetData = (): { [dateStr: string]: DayData } => {
+  const getAllTimeSheetData = async (timesheetStore: TimesheetStore): Promise<{ [dateStr: string]: DayData }> => {
     const allTimesheetData: { [dateStr: string]: DayData } = {};
+    const months = await timesheetStore.readAllMonths();
 
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith('timesheet-')) {
-        const data = localStorage.getItem(key);
-        if (data) {
-          const parsed = JSON.parse(data);
-          Object.assign(allTimesheetData, parsed);
-        }
-      }
-    }
+    Object.keys(months).forEach((monthKey: string) => {
+      Object.assign(allTimesheetData, months[monthKey]);
+    });
 
     return allTimesheetData;
   };
 
-  const isDateInRange = (dateStr: string, startDate: Date, endDate: Date): boolean => {
-    const date = new Date(dateStr);
-    return (isBefore(date, endDate) || isSameDay(date, endDate)) && (isAfter(date, startDate) || isSameDay(date, startDate));
-  };
+  const generatePdfReport = async () => {
+    if (!store) return;
 
-  const generatePdfReport = () => {
     if (!pdfStartDate || !pdfEndDate) {
       alert('Por favor selecciona ambas fechas');
       return;
     }
 
-    const startDate = new Date(pdfStartDate);
-    const endDate = new Date(pdfEndDate);
-
-    if (isAfter(startDate, endDate)) {
+    if (pdfStartDate > pdfEndDate) {
       alert('La fecha de inicio debe ser anterior a la fecha de fin');
       return;
     }
 
-    const allData = getAllTimeSheetData();
-    const filteredData: { [dateStr: string]: DayData } = {};
-
-    Object.keys(allData).forEach((dateStr: string) => {
-      if (isDateInRange(dateStr, startDate, endDate)) {
-        filteredData[dateStr] = allData[dateStr];
-      }
-    });
+    const startDate = parseISO(pdfStartDate);
+    const endDate = parseISO(pdfEndDate);
 
-    const sortedDates = Object.keys(filteredData).sort();
-
-    let totalHours = 0;
-    let daysWorked = 0;
-    let dietaNormalUnits = 0;
-    let dietaFindeUnits = 0;
-    let nocturnidadMoney = 0;
-    let dietaIntMoney = 0;
-    let extraMoney = 0;
-    let pernoctaMoney = 0;
-    let propinasMoney = 0;
-
-    const tableData: any[] = [];
-
-    sortedDates.forEach((dateStr: string) => {
-      const dayData = filteredData[dateStr];
-      const date = new Date(dateStr);
-      const dayOfWeek = getDay(date);
-      const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-
-      const hours = calculateHours(dayData.startTime, dayData.endTime);
-      const dietaNormal = !isWeekend ? calculateDietaNormal(hours) : 0;
-      const dietaFinde = isWeekend ? calculateDietaFinde(hours) : 0;
-      const nocturnidad = calculateNocturnidad(dayData.endTime);
-
-      if (hours > 0) daysWorked++;
-      totalHours += hours;
-      dietaNormalUnits += dietaNormal;
-      dietaFindeUnits += dietaFinde;
-      nocturnidadMoney += nocturnidad;
-      dietaIntMoney += dayData.dietaInt * 25;
-      extraMoney += dayData.extra * 120;
-      pernoctaMoney += dayData.pernocta * 40;
-      propinasMoney += dayData.propinas;
+    const allData = await getAllTimeSheetData(store);
+    const reportDays = calculateRangeDays(allData, startDate, endDate, calculationContext);
+    const { totalMoney, totalHours, nightHours, overtimeHours, overtimeMoney, totalKm, kilometrajeMoney, daysWorked, statusDays } = summarizeDays(reportDays, { includePropinas: showPropinas });
 
+    const tableData = reportDays.map(day => {
       const row = [
-        format(date, 'dd/MM/yyyy'),
-        dayData.startTime || '-',
-        dayData.endTime || '-',
-        hours.toFixed(2),
-        dietaNormal || '-',
-        dietaFinde || '-',
-        nocturnidad ? `${nocturnidad}€` : '-',
-        dayData.dietaInt || '-',
-        dayData.extra || '-',
-        dayData.pernocta || '-',
+        [
+          format(day.date, 'dd/MM/yyyy'),
+          ...(day.holiday ? [day.holiday.name] : []),
+          ...(day.status !== 'worked' ? [getStatusInfo(day.status).label] : []),
+        ].join('\n'),
+        day.intervals.map(interval => interval.startTime || '-').join('\n'),
+        day.intervals.map(interval => interval.endTime || '-').join('\n'),
+        formatBreaks(day.breaks).replace(/, /g, '\n') || '-',
+        day.hours.toFixed(2),
+        day.overtimeHours ? day.overtimeHours.toFixed(2) : '-',
+        day.dietaNormal || '-',
+        day.dietaFinde || '-',
+        day.nocturnidad ? `${day.nocturnidad.toFixed(2)}€\n${day.nightHours.toFixed(2)} h` : '-',
+        day.dietaInt || '-',
+        day.extra || '-',
+        day.pernocta || '-',
+        day.km ? `${day.km.toFixed(1)}\n${day.kilometrajeMoney.toFixed(2)}€` : '-',
       ];
 
       if (showPropinas) {
-        row.push(dayData.propinas ? dayData.propinas.toFixed(2) : '-');
+        row.push(day.propinas ? day.propinas.toFixed(2) : '-');
       }
 
-      tableData.push(row);
+      return row;
     });
 
-    const dietaNormalMoney = dietaNormalUnits * 15;
-    const dietaFindeMoney = dietaFindeUnits * 20;
-    const totalDietas = dietaNormalMoney + dietaFindeMoney;
-    const totalExtras = dietaIntMoney + extraMoney + pernoctaMoney + (showPropinas ? propinasMoney : 0);
-    const totalMoney = totalDietas + nocturnidadMoney + totalExtras;
-
     const pdf = new jsPDF();
     const pageWidth = pdf.internal.pageSize.getWidth();
     let yPosition = 15;
@@ -360,13 +549,27 @@ function App() {
     pdf.setFontSize(11);
     pdf.text(`${format(startDate, 'd MMM yyyy', { locale: es })} al ${format(endDate, 'd MMM yyyy', { locale: es })}`, pageWidth / 2, yPosition, { align: 'center' });
 
+    pdf.setFontSize(10);
+    describeProfile(profile).forEach(line => {
+      yPosition += 6;
+      pdf.text(line, pageWidth / 2, yPosition, { align: 'center' });
+    });
+
     yPosition += 12;
     pdf.setFontSize(10);
     pdf.text(`Total Ingresos: ${totalMoney.toFixed(2)}€`, 15, yPosition);
     yPosition += 6;
-    pdf.text(`Total Horas: ${totalHours.toFixed(2)}h`, 15, yPosition);
+    pdf.text(`Total Horas: ${totalHours.toFixed(2)}h (${nightHours.toFixed(2)}h nocturnas)`, 15, yPosition);
+    yPosition += 6;
+    pdf.text(`Horas Extra: ${overtimeHours.toFixed(2)}h (${overtimeMoney.toFixed(2)}€)`, 15, yPosition);
+    yPosition += 6;
+    pdf.text(`Kilómetros: ${totalKm.toFixed(1)} km (${kilometrajeMoney.toFixed(2)}€)`, 15, yPosition);
     yPosition += 6;
     pdf.text(`Días Trabajados: ${daysWorked}`, 15, yPosition);
+    describeStatusCounts(statusDays).forEach(line => {
+      yPosition += 6;
+      pdf.text(line, 15, yPosition);
+    });
 
     yPosition += 10;
 
@@ -374,13 +577,16 @@ function App() {
       'Fecha',
       'Inicio',
       'Fin',
+      'Pausas',
       'Horas',
+      'H. Extra',
       'D. Normal',
       'D. Finde',
       'Nocturnidad',
       'D. Int',
       'Extra',
       'Pernocta',
+      'Km',
     ];
 
     if (showPropinas) {
@@ -409,19 +615,199 @@ function App() {
         0: { halign: 'center' },
         1: { halign: 'center' },
         2: { halign: 'center' },
-        3: { halign: 'right' },
-        4: { halign: 'center' },
-        5: { halign: 'center' },
-        6: { halign: 'right' },
+        3: { halign: 'center' },
+        4: { halign: 'right' },
+        5: { halign: 'right' },
+        6: { halign: 'center' },
         7: { halign: 'center' },
-        8: { halign: 'center' },
+        8: { halign: 'right' },
         9: { halign: 'center' },
-        10: { halign: 'right' },
+        10: { halign: 'center' },
+        11: { halign: 'center' },
+        12: { halign: 'right' },
+        13: { halign: 'right' },
+      },
+      didParseCell: (hookData) => {
+        if (hookData.section === 'body' && reportDays[hookData.row.index]?.holiday) {
+          hookData.cell.styles.fillColor = [254, 243, 199];
+        }
+      },
+      didDrawPage: (hookData) => {
+        yPosition = hookData.cursor?.y ?? yPosition;
       },
       margin: 15,
     });
 
-    const filename = `Reporte_${format(startDate, 'dd-MM-yyyy')}_al_${format(endDate, 'dd-MM-yyyy')}.pdf`;
+    const tripRows = reportDays.flatMap(day => day.trips.map(trip => [
+      format(day.date, 'dd/MM/yyyy'),
+      trip.origin || '-',
+      trip.destination || '-',
+      trip.reference || '-',
+      trip.odometerStart || '-',
+      trip.odometerEnd || '-',
+      trip.km.toFixed(1),
+    ]));
+
+    if (tripRows.length > 0) {
+      autoTable(pdf, {
+        head: [['Fecha', 'Origen', 'Destino', 'Referencia', 'Km inicial', 'Km final', 'Km']],
+        body: [...tripRows, ['Total', '', '', '', '', '', totalKm.toFixed(1)]],
+        startY: yPosition + 10,
+        theme: 'grid',
+        headStyles: {
+          fillColor: [51, 65, 85],
+          textColor: [255, 255, 255],
+          fontSize: 9,
+          fontStyle: 'bold',
+        },
+        bodyStyles: {
+          fontSize: 8,
+          textColor: [0, 0, 0],
+        },
+        columnStyles: {
+          0: { halign: 'center' },
+          4: { halign: 'right' },
+          5: { halign: 'right' },
+          6: { halign: 'right' },
+        },
+        didDrawPage: (hookData) => {
+          yPosition = hookData.cursor?.y ?? yPosition;
+        },
+        margin: 15,
+      });
+    }
+
+    const reportExpenses = getExpensesInRange(expenses, startDate, endDate);
+    if (reportExpenses.length > 0) {
+      const receiptImages = await Promise.all(reportExpenses.map(expense =>
+        (expense.receiptId ? store.readReceipt<ReceiptImage>(expense.receiptId) : Promise.resolve(null))));
+      const reportExpenseSummary = summarizeExpenses(reportExpenses);
+      const thumbnailSize = 16;
+
+      autoTable(pdf, {
+        head: [['Fecha', 'Categoría', 'Descripción', 'Pago', 'Importe', 'Ticket']],
+        body: [
+          ...reportExpenses.map(expense => [
+            format(parseISO(expense.date), 'dd/MM/yyyy'),
+            getCategoryLabel(expense.category),
+            expense.description || '-',
+            getPaymentMethodInfo(expense.paymentMethod).label,
+            `${expense.amount.toFixed(2)}€`,
+            expense.receiptId ? '' : '-',
+          ]),
+          ['Total gastos', '', '', '', `${reportExpenseSummary.total.toFixed(2)}€`, ''],
+          ['A reembolsar', '', '', '', `${reportExpenseSummary.reimbursable.toFixed(2)}€`, ''],
+        ],
+        startY: yPosition + 10,
+        theme: 'grid',
+        headStyles: {
+          fillColor: [51, 65, 85],
+          textColor: [255, 255, 255],
+          fontSize: 9,
+          fontStyle: 'bold',
+        },
+        bodyStyles: {
+          fontSize: 8,
+          textColor: [0, 0, 0],
+          valign: 'middle',
+        },
+        columnStyles: {
+          0: { halign: 'center' },
+          4: { halign: 'right' },
+          5: { halign: 'center', cellWidth: thumbnailSize + 4 },
+        },
+        didParseCell: (hookData) => {
+          if (hookData.section === 'body' && receiptImages[hookData.row.index]) {
+            hookData.cell.styles.minCellHeight = thumbnailSize + 2;
+          }
+        },
+        didDrawCell: (hookData) => {
+          const image = receiptImages[hookData.row.index];
+          if (hookData.section !== 'body' || hookData.column.index !== 5 || !image) return;
+
+          const scale = thumbnailSize / Math.max(image.width, image.height);
+          const width = image.width * scale;
+          const height = image.height * scale;
+          pdf.addImage(
+            image.dataUrl,
+            'JPEG',
+            hookData.cell.x + (hookData.cell.width - width) / 2,
+            hookData.cell.y + (hookData.cell.height - height) / 2,
+            width,
+            height,
+          );
+        },
+        didDrawPage: (hookData) => {
+          yPosition = hookData.cursor?.y ?? yPosition;
+        },
+        margin: 15,
+      });
+    }
+
+    // Payslips of periods lying wholly inside the report, checked against
+    // the days as they stand now.
+    Object.values(payslips)
+      .filter(record => record.startDate >= pdfStartDate && record.endDate <= pdfEndDate)
+      .sort((a, b) => a.periodKey.localeCompare(b.periodKey))
+      .forEach(record => {
+        const periodDays = reportDays.filter(day => day.dateStr >= record.startDate && day.dateStr <= record.endDate);
+        const expected = getExpectedAmounts(summarizeDays(periodDays, { includePropinas: showPropinas }));
+        const lines = reconcile(expected, record.paid);
+        const totalDifference = getTotalDifference(lines);
+
+        autoTable(pdf, {
+          head: [[`Nómina ${record.label}`, 'Calculado', 'Pagado', 'Diferencia']],
+          body: [
+            ...lines.map(line => [line.label, `${line.expected.toFixed(2)}€`, `${line.paid.toFixed(2)}€`, `${line.difference.toFixed(2)}€`]),
+            ['Total', '', '', `${totalDifference.toFixed(2)}€`],
+          ],
+          startY: yPosition + 10,
+          theme: 'grid',
+          headStyles: {
+            fillColor: [51, 65, 85],
+            textColor: [255, 255, 255],
+            fontSize: 9,
+            fontStyle: 'bold',
+          },
+          bodyStyles: {
+            fontSize: 8,
+            textColor: [0, 0, 0],
+          },
+          columnStyles: {
+            1: { halign: 'right' },
+            2: { halign: 'right' },
+            3: { halign: 'right' },
+          },
+          didDrawPage: (hookData) => {
+            yPosition = hookData.cursor?.y ?? yPosition;
+          },
+          margin: 15,
+        });
+      });
+
+    if (pdfSignatures) {
+      const pageHeight = pdf.internal.pageSize.getHeight();
+      yPosition += 30;
+      if (yPosition + 15 > pageHeight) {
+        pdf.addPage();
+        yPosition = 40;
+      }
+
+      const signatureWidth = 70;
+      const signatures = [
+        { x: 15, label: 'Firma del conductor', name: profile.driverName },
+        { x: pageWidth - 15 - signatureWidth, label: 'Firma del responsable', name: profile.companyName },
+      ];
+      pdf.setFontSize(9);
+      signatures.forEach(({ x, label, name }) => {
+        pdf.line(x, yPosition, x + signatureWidth, yPosition);
+        pdf.text(label, x, yPosition + 5);
+        if (name) pdf.text(name, x, yPosition + 10);
+      });
+    }
+
+    const driverPart = toFileNamePart(profile.driverName);
+    const filename = `Reporte_${driverPart ? `${driverPart}_` : ''}${format(startDate, 'dd-MM-yyyy')}_al_${format(endDate, 'dd-MM-yyyy')}.pdf`;
     pdf.save(filename);
 
     setShowPdfExport(false);
@@ -429,205 +815,436 @@ function App() {
     setPdfEndDate('');
   };
 
-  const range = useMemo(() => getFiscalMonthRange(currentDate), [currentDate]);
+  const generateCsvReport = async (startDateStr: string, endDateStr: string) => {
+    if (!store) return;
 
-  const days = useMemo(() => {
-    const daysList: any[] = [];
-    const sortedDates = (Object.keys(allData) as Array<string>).sort();
-
-    sortedDates.forEach((dateStr: string) => {
-      const date = new Date(dateStr);
-      const dayOfWeek = getDay(date);
-      const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-
-      const dayData = allData[dateStr] || {
-        date: dateStr,
-        startTime: '',
-        endTime: '',
-        dietaInt: 0,
-        extra: 0,
-        pernocta: 0,
-        propinas: 0,
-      };
-
-      const hours = calculateHours(dayData.startTime, dayData.endTime);
-      const dietaNormal = !isWeekend ? calculateDietaNormal(hours) : 0;
-      const dietaFinde = isWeekend ? calculateDietaFinde(hours) : 0;
-      const nocturnidad = calculateNocturnidad(dayData.endTime);
-
-      daysList.push({
-        ...dayData,
-        date,
-        dateStr,
-        dayOfWeek,
-        isWeekend,
-        hours,
-        dietaNormal,
-        dietaFinde,
-        nocturnidad,
-      });
+    const allData = await getAllTimeSheetData(store);
+    const reportDays = calculateRangeDays(allData, parseISO(startDateStr), parseISO(endDateStr), calculationContext);
+    const options = { includePropinas: showPropinas };
+
+    const header = [
+      'Fecha',
+      'Estado',
+      'Inicio',
+      'Fin',
+      'Pausas',
+      'Pausas No Pagadas',
+      'Horas',
+      'Horas Extra',
+      'D. Normal',
+      'D. Finde',
+      'Horas Nocturnas',
+      'Nocturnidad',
+      'D. Int',
+      'Extra',
+      'Pernocta',
+      'Km',
+      ...(showPropinas ? ['Propinas'] : []),
+      'Importe D. Normal',
+      'Importe D. Finde',
+      'Importe D. Int',
+      'Importe Extra',
+      'Importe Pernocta',
+      'Importe Kilometraje',
+      'Importe Horas Extra',
+      'Total Día',
+    ];
+
+    const rows = reportDays.map(day => [
+      format(day.date, 'dd/MM/yyyy'),
+      getStatusInfo(day.status).label,
+      day.intervals.map(interval => interval.startTime).join(' / '),
+      day.intervals.map(interval => interval.endTime).join(' / '),
+      formatBreaks(day.breaks),
+      formatCsvNumber(day.unpaidBreakHours),
+      formatCsvNumber(day.hours),
+      formatCsvNumber(day.overtimeHours),
+      day.dietaNormal,
+      day.dietaFinde,
+      formatCsvNumber(day.nightHours),
+      formatCsvNumber(day.nocturnidad),
+      day.dietaInt,
+      day.extra,
+      day.pernocta,
+      formatCsvNumber(day.km),
+      ...(showPropinas ? [formatCsvNumber(day.propinas)] : []),
+      formatCsvNumber(day.dietaNormalMoney),
+      formatCsvNumber(day.dietaFindeMoney),
+      formatCsvNumber(day.dietaIntMoney),
+      formatCsvNumber(day.extraMoney),
+      formatCsvNumber(day.pernoctaMoney),
+      formatCsvNumber(day.kilometrajeMoney),
+      formatCsvNumber(day.overtimeMoney),
+      formatCsvNumber(getDayTotal(day, options)),
+    ]);
+
+    const blob = new Blob([toCsv([header, ...rows])], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `Registro_${format(parseISO(startDateStr), 'dd-MM-yyyy')}_al_${format(parseISO(endDateStr), 'dd-MM-yyyy')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCsvImport = async (importedDays: DayData[], mapping: ColumnMapping) => {
+    if (!store) return;
+
+    const importedMonths = groupDaysByMonth(importedDays);
+    await enqueueWrite(async () => {
+      const merged: { [monthKey: string]: TimesheetData } = {};
+      for (const monthKey of Object.keys(importedMonths)) {
+        const existing = await store.readMonth(monthKey);
+        merged[monthKey] = mergeImportedDays(existing ?? {}, importedMonths[monthKey], mapping);
+      }
+      await store.writeMonths(merged);
     });
 
-    return daysList;
-  }, [allData]);
+    setShowCsv(false);
+    setAllData(await loadPeriodData(store, range));
+  };
 
-  const summary = useMemo(() => {
-    let totalHours = 0;
-    let daysWorked = 0;
-    let dietaNormalMoney = 0;
-    let dietaFindeMoney = 0;
-    let dietaNormalUnits = 0;
-    let dietaFindeUnits = 0;
-    let nocturnidadMoney = 0;
-    let dietaIntMoney = 0;
-    let extraMoney = 0;
-    let pernoctaMoney = 0;
-    let propinasMoney = 0;
-
-    days.forEach(day => {
-      if (day.hours > 0) daysWorked++;
-      totalHours += day.hours;
-      dietaNormalUnits += day.dietaNormal;
-      dietaFindeUnits += day.dietaFinde;
-      dietaNormalMoney += day.dietaNormal * 15;
-      dietaFindeMoney += day.dietaFinde * 20;
-      nocturnidadMoney += day.nocturnidad;
-      dietaIntMoney += day.dietaInt * 25;
-      extraMoney += day.extra * 120;
-      pernoctaMoney += day.pernocta * 40;
-      propinasMoney += day.propinas;
+  const days = useMemo(() => {
+    const periodData: TimesheetData = { ...allData };
+    getRangeDates(range.startDate, range.endDate).forEach((dateStr: string) => {
+      periodData[dateStr] = allData[dateStr] || createEmptyDay(dateStr);
     });
+    return calculateRangeDays(periodData, range.startDate, range.endDate, calculationContext);
+  }, [allData, calculationContext, range]);
 
-    const totalDietas = dietaNormalMoney + dietaFindeMoney;
-    const totalExtras = dietaIntMoney + extraMoney + pernoctaMoney + (showPropinas ? propinasMoney : 0);
-    const totalMoney = totalDietas + nocturnidadMoney + totalExtras;
+  const summary = useMemo(() => summarizeDays(days, { includePropinas: showPropinas }), [days, showPropinas]);
 
-    return {
-      totalHours: totalHours.toFixed(2),
-      daysWorked,
-      totalMoney: totalMoney.toFixed(2),
-      totalExtras: totalExtras.toFixed(2),
-      dietaNormalMoney: dietaNormalMoney.toFixed(2),
-      dietaFindeMoney: dietaFindeMoney.toFixed(2),
-      dietaNormalUnits,
-      dietaFindeUnits,
-      totalDietas: totalDietas.toFixed(2),
-      nocturnidadMoney: nocturnidadMoney.toFixed(2),
-      dietaIntMoney: dietaIntMoney.toFixed(2),
-      extraMoney: extraMoney.toFixed(2),
-      pernoctaMoney: pernoctaMoney.toFixed(2),
-      propinasMoney: propinasMoney.toFixed(2),
-    };
-  }, [days, showPropinas]);
+  const complianceIssues = useMemo(() => checkCompliance(allData, range.startDate, range.endDate), [allData, range]);
+  const complianceIssuesByDate = useMemo(() => groupIssuesByDate(complianceIssues), [complianceIssues]);
+
+  const netPay = useMemo(
+    () => estimateNetPay(days, summary, getBaseSalaryForRange(range.startDate, range.endDate, netPaySettings), netPaySettings),
+    [days, summary, range, netPaySettings],
+  );
 
   const updateDayData = (dateStr: string, field: keyof DayData, value: string | number) => {
     setAllData(prev => ({
       ...prev,
       [dateStr]: {
-        ...(prev[dateStr] || {
-          date: dateStr,
-          startTime: '',
-          endTime: '',
-          dietaInt: 0,
-          extra: 0,
-          pernocta: 0,
-          propinas: 0,
-        }),
+        ...(prev[dateStr] || createEmptyDay(dateStr)),
         [field]: value,
       },
     }));
   };
 
-  const getAnnualSummary = (): MonthlySummary => {
-    let totalHours = 0;
-    let daysWorked = 0;
-    let dietaNormalUnits = 0;
-    let dietaFindeUnits = 0;
-    let nocturnidadMoney = 0;
-    let dietaIntMoney = 0;
-    let extraMoney = 0;
-    let pernoctaMoney = 0;
-    let propinasMoney = 0;
-
-    const year = getYear(currentDate);
-
-    for (let month = 0; month < 12; month++) {
-      const monthDate = new Date(year, month, 1);
-      const fiscalRange = getFiscalMonthRange(monthDate);
-
-      const startMonthData = localStorage.getItem(`timesheet-${fiscalRange.startMonthKey}`);
-      const endMonthData = localStorage.getItem(`timesheet-${fiscalRange.endMonthKey}`);
-
-      const processData = (data: TimesheetData, isStartMonth: boolean) => {
-        Object.keys(data).forEach((dateStr: string) => {
-          const dayNum = parseInt(dateStr.split('-')[2]);
-          const isInRange = isStartMonth ? dayNum >= CUTOFF_DAY : dayNum < CUTOFF_DAY;
-
-          if (!isInRange) return;
-
-          const dayData = data[dateStr];
-          const date = new Date(dateStr);
-          const dayOfWeek = getDay(date);
-          const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
-
-          const hours = calculateHours(dayData.startTime, dayData.endTime);
-
-          if (hours > 0) daysWorked++;
-          totalHours += hours;
-
-          const dietaNormal = !isWeekend ? calculateDietaNormal(hours) : 0;
-          const dietaFinde = isWeekend ? calculateDietaFinde(hours) : 0;
-          const nocturnidad = calculateNocturnidad(dayData.endTime);
-
-          dietaNormalUnits += dietaNormal;
-          dietaFindeUnits += dietaFinde;
-          nocturnidadMoney += nocturnidad;
-          dietaIntMoney += dayData.dietaInt * 25;
-          extraMoney += dayData.extra * 120;
-          pernoctaMoney += dayData.pernocta * 40;
-          propinasMoney += dayData.propinas;
-        });
-      };
+  const updateIntervals = (dateStr: string, update: (intervals: WorkInterval[]) => WorkInterval[]) => {
+    setAllData(prev => {
+      const day = prev[dateStr] || createEmptyDay(dateStr);
+      return { ...prev, [dateStr]: { ...day, intervals: update(day.intervals) } };
+    });
+  };
 
-      if (startMonthData) {
-        processData(JSON.parse(startMonthData), true);
-      }
-      if (endMonthData) {
-        processData(JSON.parse(endMonthData), false);
+  const updateInterval = (dateStr: string, index: number, field: keyof WorkInterval, value: string) => {
+    updateIntervals(dateStr, intervals => intervals.map((interval, i) => (i === index ? { ...interval, [field]: value } : interval)));
+  };
+
+  const addInterval = (dateStr: string) => {
+    updateIntervals(dateStr, intervals => [...intervals, createEmptyInterval()]);
+  };
+
+  const removeInterval = (dateStr: string, index: number) => {
+    updateIntervals(dateStr, intervals => intervals.filter((_, i) => i !== index));
+  };
+
+  // Clocking in and out can touch a day outside the loaded data, e.g. a
+  // shift started before moving to another period, so such a day is read
+  // from and written to its month directly.
+  const isDayLoaded = (dateStr: string): boolean => {
+    const { startDate, endDate } = getPeriodDataRange(range);
+    return isDateStrInRange(dateStr, startDate, endDate);
+  };
+
+  const readDay = async (timesheetStore: TimesheetStore, dateStr: string): Promise<DayData> => {
+    const stored = isDayLoaded(dateStr) ? allData : await timesheetStore.readMonth(dateStr.substring(0, 7));
+    return stored?.[dateStr] || createEmptyDay(dateStr);
+  };
+
+  const writeDay = async (timesheetStore: TimesheetStore, day: DayData) => {
+    if (isDayLoaded(day.date)) {
+      setAllData(prev => ({ ...prev, [day.date]: day }));
+    } else {
+      await enqueueWrite(() => saveFiscalMonthData(timesheetStore, { [day.date]: day }));
+    }
+  };
+
+  const handleClockIn = async () => {
+    if (!store) return;
+
+    const at = new Date();
+    try {
+      const result = clockIn(await readDay(store, toDateStr(at)), at);
+      await writeDay(store, result.day);
+      saveActiveShift(accountId, result.shift);
+      setActiveShift(result.shift);
+      setNow(at.getTime());
+    } catch {
+      alert('No se pudo fichar la entrada');
+    }
+  };
+
+  const handleClockOut = async () => {
+    if (!store || !activeShift) return;
+
+    const at = new Date();
+    if (getShiftElapsedMs(activeShift, at.getTime()) >= MAX_SHIFT_MS) {
+      alert('El fichaje lleva abierto más de 24 horas. Revisa la hora de salida a mano.');
+    } else {
+      try {
+        await writeDay(store, clockOut(await readDay(store, activeShift.dateStr), activeShift, at));
+      } catch {
+        alert('No se pudo fichar la salida');
+        return;
       }
     }
 
-    const dietaNormalMoney = dietaNormalUnits * 15;
-    const dietaFindeMoney = dietaFindeUnits * 20;
-    const totalDietas = dietaNormalMoney + dietaFindeMoney;
-    const totalExtras = dietaIntMoney + extraMoney + pernoctaMoney + (showPropinas ? propinasMoney : 0);
-    const totalMoney = totalDietas + nocturnidadMoney + totalExtras;
+    saveActiveShift(accountId, null);
+    setActiveShift(null);
+  };
+
+  // Checked every minute, only while the app is open and unlocked: the data
+  // is encrypted, so nothing can check it with the app closed or locked. A
+  // reminder missed meanwhile is shown on the next unlock that same day.
+  useEffect(() => {
+    if (!store || !('Notification' in window)) return;
+    if (!reminderSettings.emptyDayEnabled && !reminderSettings.periodEndEnabled) return;
+
+    const checkReminders = async () => {
+      if (Notification.permission !== 'granted') return;
+
+      const at = new Date();
+      const log = loadReminderLog(accountId);
+      const due = getDueReminders(
+        reminderSettings,
+        at,
+        await readDay(store, toDateStr(at)),
+        getFiscalPeriod(at, periodDefinitions),
+        log,
+      );
+      for (const reminder of due) {
+        await showReminder(reminder);
+        log[reminder.kind] = toDateStr(at);
+      }
+      if (due.length > 0) saveReminderLog(accountId, log);
+    };
+
+    checkReminders().catch(() => undefined);
+    const timer = setInterval(() => checkReminders().catch(() => undefined), 60 * 1000);
+    return () => clearInterval(timer);
+  }, [store, reminderSettings, periodDefinitions, allData]);
+
+  const handleSaveReminders = (settings: ReminderSettings) => {
+    saveReminderSettings(accountId, settings);
+    setReminderSettings(settings);
+    setShowReminders(false);
+  };
+
+  const handleSaveBreaks = (dateStr: string, breaks: WorkBreak[]) => {
+    setAllData(prev => ({
+      ...prev,
+      [dateStr]: { ...(prev[dateStr] || createEmptyDay(dateStr)), breaks },
+    }));
+    setBreaksDate(null);
+  };
+
+  const handleSaveTrips = (dateStr: string, trips: Trip[]) => {
+    setAllData(prev => ({
+      ...prev,
+      [dateStr]: { ...(prev[dateStr] || createEmptyDay(dateStr)), trips },
+    }));
+    setTripsDate(null);
+  };
+
+  const periodExpenses = useMemo(
+    () => getExpensesInRange(expenses, range.startDate, range.endDate),
+    [expenses, range],
+  );
+  const expenseSummary = useMemo(() => summarizeExpenses(periodExpenses), [periodExpenses]);
+  const expenseTotalsByDate = useMemo(() => {
+    const totals: { [dateStr: string]: ExpenseSummary } = {};
+    new Set(periodExpenses.map(expense => expense.date)).forEach(dateStr => {
+      totals[dateStr] = summarizeExpenses(periodExpenses.filter(expense => expense.date === dateStr));
+    });
+    return totals;
+  }, [periodExpenses]);
+
+  const annualYear = getYear(range.endDate);
+
+  // The previous year is loaded along with this one for the comparison.
+  const getAnnualSummary = async (
+    timesheetStore: TimesheetStore,
+  ): Promise<{ summary: PeriodSummary; netPay: NetPayEstimate; breakdown: AnnualBreakdown }> => {
+    const options = { includePropinas: showPropinas };
+    const yearRange = getFiscalYearRange(annualYear, periodDefinitions);
+    const previousYearRange = getFiscalYearRange(annualYear - 1, periodDefinitions);
+    const contextRange = getOvertimeContextRange(previousYearRange.startDate, yearRange.endDate, calculationContext);
+    const data = await loadRangeData(timesheetStore, contextRange.startDate, contextRange.endDate);
+
+    const annualDays = calculateRangeDays(data, yearRange.startDate, yearRange.endDate, calculationContext);
+    const previousDays = calculateRangeDays(data, previousYearRange.startDate, previousYearRange.endDate, calculationContext);
+    const annualPeriodSummary = summarizeDays(annualDays, options);
+    const baseSalary = getBaseSalaryForRange(yearRange.startDate, yearRange.endDate, netPaySettings);
 
     return {
-      totalHours,
-      daysWorked,
-      dietaNormalUnits,
-      dietaFindeUnits,
-      nocturnidadMoney,
-      dietaIntMoney,
-      extraMoney,
-      pernoctaMoney,
-      propinasMoney,
-      totalMoney,
+      summary: annualPeriodSummary,
+      netPay: estimateNetPay(annualDays, annualPeriodSummary, baseSalary, netPaySettings),
+      breakdown: {
+        periods: summarizeByPeriod(
+          annualDays,
+          getFiscalPeriodsInRange(yearRange.startDate, yearRange.endDate, periodDefinitions),
+          options,
+        ),
+        previousPeriods: summarizeByPeriod(
+          previousDays,
+          getFiscalPeriodsInRange(previousYearRange.startDate, previousYearRange.endDate, periodDefinitions),
+          options,
+        ),
+        previousSummary: summarizeDays(previousDays, options),
+      },
+    };
+  };
+
+  useEffect(() => {
+    if (!store || !showAnnualSummary) return;
+
+    let cancelled = false;
+    getAnnualSummary(store)
+      .then(result => {
+        if (cancelled) return;
+        setAnnualSummary(result.summary);
+        setAnnualNetPay(result.netPay);
+        setAnnualBreakdown(result.breakdown);
+      })
+      .catch(() => alert('No se pudo calcular el resumen anual'));
+
+    return () => {
+      cancelled = true;
     };
+  }, [store, showAnnualSummary, showPropinas, annualYear, periodDefinitions, calculationContext, netPaySettings, allData]);
+
+  const handleSaveRates = (tables: RateTable[]) => {
+    saveRateTables(accountId, tables);
+    setRateTables(tables);
+    setShowRates(false);
   };
 
-  const annualSummary = useMemo(() => getAnnualSummary(), [showPropinas, currentDate]);
+  const handleSaveHolidays = (settings: HolidaySettings) => {
+    saveHolidaySettings(accountId, settings);
+    setHolidaySettings(settings);
+    setShowHolidays(false);
+  };
 
-  const handlePrevMonth = () => {
-    setCurrentDate(prev => subMonths(prev, 1));
+  const handleSaveStatuses = (settings: DayStatusSettings) => {
+    saveDayStatusSettings(accountId, settings);
+    setStatusSettings(settings);
+    setShowStatuses(false);
   };
 
-  const handleNextMonth = () => {
-    setCurrentDate(prev => addMonths(prev, 1));
+  // The restore runs in the write queue, so an autosave started before it
+  // cannot land on top of the restored months, and everything is reloaded
+  // from the store before a later autosave is queued.
+  const handleBackupRestore = async (restore: () => Promise<BackupSettings>) => {
+    if (!store) return;
+
+    await enqueueWrite(async () => {
+      const settings = await restore();
+      saveRateTables(accountId, settings.rateTables);
+      setRateTables(settings.rateTables);
+      saveHolidaySettings(accountId, settings.holidays);
+      setHolidaySettings(settings.holidays);
+      saveDayStatusSettings(accountId, settings.statuses);
+      setStatusSettings(settings.statuses);
+      saveNetPaySettings(accountId, settings.netPay);
+      setNetPaySettings(settings.netPay);
+      savePeriodDefinitions(accountId, settings.periods);
+      setPeriodDefinitions(settings.periods);
+      updatePreferences(settings.preferences);
+      saveReminderSettings(accountId, settings.reminders);
+      setReminderSettings(settings.reminders);
+
+      setPayslips((await store.readEncryptedMeta<PayslipMap>('payslips')) ?? {});
+      setProfile({ ...EMPTY_PROFILE, ...(await store.readEncryptedMeta<DriverProfile>('profile')) });
+      setExpenses((await store.readEncryptedMeta<Expense[]>('expenses')) ?? []);
+      setAllData(await loadPeriodData(store, getFiscalPeriod(currentDate, settings.periods)));
+    });
+    setShowBackup(false);
   };
 
-  const fiscalMonthLabel = format(currentDate, 'MMMM yyyy', { locale: es });
+  const handleSavePeriods = (definitions: PeriodDefinition[]) => {
+    savePeriodDefinitions(accountId, definitions);
+    setPeriodDefinitions(definitions);
+    setShowPeriods(false);
+  };
+
+  const handleSaveProfile = async (updated: DriverProfile) => {
+    if (!store) return;
+
+    try {
+      await store.writeEncryptedMeta('profile', updated);
+      setProfile(updated);
+      setShowProfile(false);
+    } catch {
+      alert('No se pudo guardar el perfil');
+    }
+  };
+
+  const handleSaveNetPay = (settings: NetPaySettings) => {
+    saveNetPaySettings(accountId, settings);
+    setNetPaySettings(settings);
+    setShowNetPay(false);
+  };
+
+  const handleSavePayslip = async (record: PayslipRecord) => {
+    if (!store) return;
+
+    const updated = { ...payslips, [record.periodKey]: record };
+    try {
+      await store.writeEncryptedMeta('payslips', updated);
+      setPayslips(updated);
+      setShowPayslip(false);
+    } catch {
+      alert('No se pudo guardar la nómina');
+    }
+  };
+
+  // Photos are written before the list that points at them, so a failure can
+  // at worst leave an unused photo behind.
+  const handleSaveExpenses = async (
+    dateStr: string,
+    dayExpenses: Expense[],
+    newReceipts: { [receiptId: string]: ReceiptImage },
+    deletedReceiptIds: string[],
+  ) => {
+    if (!store) return;
+
+    const updated = [...expenses.filter(expense => expense.date !== dateStr), ...dayExpenses];
+    try {
+      await store.writeReceipts(newReceipts, []);
+      await store.writeEncryptedMeta('expenses', updated);
+      setExpenses(updated);
+      setExpensesDate(null);
+      await store.writeReceipts({}, deletedReceiptIds);
+    } catch {
+      alert('No se pudieron guardar los gastos');
+    }
+  };
+
+  const handlePrevPeriod = () => {
+    setCurrentDate(subDays(range.startDate, 1));
+  };
+
+  const handleNextPeriod = () => {
+    setCurrentDate(addDays(range.endDate, 1));
+  };
+
+  const chartLabels = annualBreakdown.periods.map(({ period }) =>
+    format(period.endDate, annualBreakdown.periods.length > 13 ? 'd MMM' : 'MMM', { locale: es }),
+  );
+
   const dateRangeLabel = `${format(range.startDate, 'd MMM', { locale: es })} - ${format(range.endDate, 'd MMM yyyy', { locale: es })}`;
 
   if (!isAuthenticated) {
@@ -644,10 +1261,53 @@ function App() {
             Driver Timesheet
           </h1>
           <p className="text-center text-slate-600 dark:text-slate-400 mb-8">
-            Ingresa tu código PIN para acceder
+            {isPinSetup ? 'Crea un código PIN para proteger tus datos' : 'Ingresa tu código PIN para acceder'}
           </p>
 
           <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                Perfil
+              </label>
+              <div className="flex gap-2">
+                <select
+                  value={accountId}
+                  onChange={(e) => selectAccount(e.target.value)}
+                  className="flex-1 px-3 py-2 border-2 border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                >
+                  {accounts.map(account => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setNewAccountName(newAccountName === null ? '' : null)}
+                  title="Nuevo perfil"
+                  className="px-3 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors"
+                >
+                  <UserPlus className="w-5 h-5" />
+                </button>
+              </div>
+              {newAccountName !== null && (
+                <div className="flex gap-2 mt-2">
+                  <input
+                    type="text"
+                    value={newAccountName}
+                    onChange={(e) => setNewAccountName(e.target.value)}
+                    onKeyPress={(e) => e.key === 'Enter' && handleCreateAccount()}
+                    placeholder="Nombre del conductor"
+                    className="flex-1 px-3 py-2 border-2 border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                    autoFocus
+                  />
+                  <button
+                    onClick={handleCreateAccount}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold transition-colors"
+                  >
+                    Crear
+                  </button>
+                </div>
+              )}
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
                 Código PIN (4 dígitos)
@@ -658,23 +1318,52 @@ function App() {
                 value={pinInput}
                 onChange={(e) => setPinInput(e.target.value.replace(/[^0-9]/g, ''))}
                 onKeyPress={(e) => e.key === 'Enter' && handleLogin()}
+                disabled={isLocked}
                 className="w-full px-4 py-2 text-center text-2xl tracking-widest border-2 border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:outline-none"
                 placeholder="0000"
                 autoFocus
               />
             </div>
 
+            {isPinSetup && (
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Repite el PIN
+                </label>
+                <input
+                  type="password"
+                  maxLength={4}
+                  value={pinConfirm}
+                  onChange={(e) => setPinConfirm(e.target.value.replace(/[^0-9]/g, ''))}
+                  onKeyPress={(e) => e.key === 'Enter' && handleLogin()}
+                  className="w-full px-4 py-2 text-center text-2xl tracking-widest border-2 border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                  placeholder="0000"
+                />
+              </div>
+            )}
+
+            {loginError && (
+              <p className="text-center text-sm text-red-600 dark:text-red-400">{loginError}</p>
+            )}
+            {isLocked && (
+              <p className="text-center text-sm text-red-600 dark:text-red-400">
+                Inténtalo de nuevo en {Math.ceil((lockedUntil - now) / 1000)} s
+              </p>
+            )}
+
             <button
               onClick={handleLogin}
-              disabled={pinInput.length !== 4}
+              disabled={pinInput.length !== 4 || isLocked}
               className="w-full px-4 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white rounded-lg font-semibold transition-colors"
             >
-              Acceder
+              {isPinSetup ? 'Crear PIN' : 'Acceder'}
             </button>
           </div>
 
           <p className="text-center text-xs text-slate-500 dark:text-slate-400 mt-6">
-            Introduce un PIN de 4 dígitos. Se guardará para tu próxima sesión.
+            {isPinSetup
+              ? 'Elige un PIN de 4 dígitos. Lo necesitarás cada vez que abras la aplicación.'
+              : 'Tras varios intentos fallidos el acceso se bloquea temporalmente.'}
           </p>
         </div>
       </div>
@@ -694,13 +1383,30 @@ function App() {
               <h1 className="text-3xl font-bold text-slate-800 dark:text-slate-100">
                 Driver Timesheet
               </h1>
-              <p className="text-sm text-slate-600 dark:text-slate-400">Nómina (Payroll Cycle)</p>
+              <p className="text-sm text-slate-600 dark:text-slate-400">
+                {accounts.find(account => account.id === accountId)?.name} · Nómina (Payroll Cycle)
+              </p>
             </div>
           </div>
 
           <div className="flex gap-2">
             <button
-              onClick={() => setShowPropinas(!showPropinas)}
+              onClick={activeShift ? handleClockOut : handleClockIn}
+              className={`px-4 py-2 ${activeShift ? 'bg-amber-600 hover:bg-amber-700' : 'bg-green-600 hover:bg-green-700'} text-white rounded-lg transition-colors flex items-center gap-2`}
+              title={activeShift ? `Entrada el ${activeShift.dateStr.split('-').reverse().join('/')}` : undefined}
+            >
+              <Timer className="w-4 h-4" />
+              {activeShift ? (
+                <>
+                  Fichar salida
+                  <span className="font-mono">{formatElapsed(getShiftElapsedMs(activeShift, now))}</span>
+                </>
+              ) : (
+                'Fichar entrada'
+              )}
+            </button>
+            <button
+              onClick={() => updatePreferences({ showPropinas: !showPropinas })}
               className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors flex items-center gap-2"
             >
               {showPropinas ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
@@ -713,6 +1419,62 @@ function App() {
               <FileText className="w-4 h-4" />
               Exportar PDF
             </button>
+            <button
+              onClick={() => setShowRates(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Euro className="w-4 h-4" />
+              Tarifas
+            </button>
+            <button
+              onClick={() => setShowHolidays(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <CalendarDays className="w-4 h-4" />
+              Festivos
+            </button>
+            <button
+              onClick={() => setShowStatuses(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <ListChecks className="w-4 h-4" />
+              Estados
+            </button>
+            <button
+              onClick={() => setShowPeriods(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <CalendarRange className="w-4 h-4" />
+              Periodo
+            </button>
+            <button
+              onClick={() => setShowPayslip(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Receipt className="w-4 h-4" />
+              Nómina
+            </button>
+            <button
+              onClick={() => setShowNetPay(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Landmark className="w-4 h-4" />
+              Salario
+            </button>
+            <button
+              onClick={() => setShowCsv(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Sheet className="w-4 h-4" />
+              CSV
+            </button>
+            <button
+              onClick={() => setShowBackup(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors flex items-center gap-2"
+            >
+              <DatabaseBackup className="w-4 h-4" />
+              Copia de seguridad
+            </button>
             <button
               onClick={() => setShowAnnualSummary(true)}
               className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center gap-2"
@@ -721,11 +1483,30 @@ function App() {
               Resumen Anual
             </button>
             <button
-              onClick={() => setDarkMode(!darkMode)}
+              onClick={() => setShowReminders(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors"
+              title="Recordatorios"
+            >
+              <Bell className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => updatePreferences({ darkMode: !darkMode })}
               className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors"
             >
               {darkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
             </button>
+            <button
+              onClick={() => setShowProfile(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors"
+            >
+              <UserCircle className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowChangePin(true)}
+              className="px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors"
+            >
+              <KeyRound className="w-5 h-5" />
+            </button>
             <button
               onClick={handleLogout}
               className="px-4 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors flex items-center gap-2"
@@ -738,7 +1519,7 @@ function App() {
         {/* Month Navigation */}
         <div className="flex items-center justify-between mb-6 bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
           <button
-            onClick={handlePrevMonth}
+            onClick={handlePrevPeriod}
             className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
           >
             <ChevronLeft className="w-6 h-6 text-slate-800 dark:text-slate-200" />
@@ -746,12 +1527,12 @@ function App() {
           <div className="text-center flex-1">
             <p className="text-2xl font-bold text-slate-800 dark:text-slate-100 flex items-center justify-center gap-2">
               <Calendar className="w-6 h-6" />
-              Nómina {fiscalMonthLabel}
+              Nómina {range.label}
             </p>
             <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">{dateRangeLabel}</p>
           </div>
           <button
-            onClick={handleNextMonth}
+            onClick={handleNextPeriod}
             className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
           >
             <ChevronRight className="w-6 h-6 text-slate-800 dark:text-slate-200" />
@@ -759,7 +1540,7 @@ function App() {
         </div>
 
         {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md p-6 border border-slate-200 dark:border-slate-700">
             <div className="flex items-center gap-3 mb-2">
               <div className="p-2 bg-green-100 dark:bg-green-900 rounded-lg">
@@ -768,7 +1549,7 @@ function App() {
               <h3 className="text-sm font-medium text-slate-600 dark:text-slate-400">Total Extra</h3>
             </div>
             <p className="text-3xl font-bold text-slate-800 dark:text-slate-100">
-              {summary.totalExtras}€
+              {summary.totalExtras.toFixed(2)}€
             </p>
           </div>
 
@@ -780,8 +1561,13 @@ function App() {
               <h3 className="text-sm font-medium text-slate-600 dark:text-slate-400">Total Horas</h3>
             </div>
             <p className="text-3xl font-bold text-slate-800 dark:text-slate-100">
-              {summary.totalHours}h
+              {summary.totalHours.toFixed(2)}h
             </p>
+            {summary.overtimeHours > 0 && (
+              <p className="text-sm text-orange-600 dark:text-orange-400 mt-1">
+                {summary.overtimeHours.toFixed(2)}h extra
+              </p>
+            )}
           </div>
 
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md p-6 border border-slate-200 dark:border-slate-700">
@@ -795,6 +1581,23 @@ function App() {
               {summary.daysWorked}
             </p>
           </div>
+
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md p-6 border border-slate-200 dark:border-slate-700">
+            <div className="flex items-center gap-3 mb-2">
+              <div className="p-2 bg-emerald-100 dark:bg-emerald-900 rounded-lg">
+                <Landmark className="w-5 h-5 text-emerald-600 dark:text-emerald-400" />
+              </div>
+              <h3 className="text-sm font-medium text-slate-600 dark:text-slate-400">Neto Estimado</h3>
+            </div>
+            <p className="text-3xl font-bold text-slate-800 dark:text-slate-100">
+              {netPay.netPay.toFixed(2)}€
+            </p>
+            <div className="mt-2 space-y-0.5 text-xs text-slate-500 dark:text-slate-400">
+              <p>Bruto: {netPay.grossPay.toFixed(2)}€</p>
+              <p>Seg. Social: -{netPay.socialSecurity.toFixed(2)}€ · IRPF: -{netPay.irpf.toFixed(2)}€</p>
+              <p>Dietas exentas: {netPay.exemptDietas.toFixed(2)}€ · sujetas: {netPay.taxableDietas.toFixed(2)}€</p>
+            </div>
+          </div>
         </div>
 
         {/* Detailed Breakdown */}
@@ -803,45 +1606,82 @@ function App() {
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
               <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Dieta Normal</p>
-              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.dietaNormalMoney}€</p>
+              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.dietaNormalMoney.toFixed(2)}€</p>
             </div>
             <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
               <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Dieta Finde</p>
-              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.dietaFindeMoney}€</p>
+              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.dietaFindeMoney.toFixed(2)}€</p>
             </div>
             <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
               <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Total Dietas</p>
-              <p className="text-xl font-bold text-blue-600 dark:text-blue-400">{summary.totalDietas}€</p>
+              <p className="text-xl font-bold text-blue-600 dark:text-blue-400">{summary.totalDietas.toFixed(2)}€</p>
             </div>
             <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
               <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Nocturnidad</p>
-              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.nocturnidadMoney}€</p>
+              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.nocturnidadMoney.toFixed(2)}€</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{summary.nightHours.toFixed(2)} h nocturnas</p>
+            </div>
+            <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
+              <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Horas Extra</p>
+              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.overtimeMoney.toFixed(2)}€</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{summary.overtimeHours.toFixed(2)} h</p>
             </div>
             <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
               <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Dieta Int</p>
-              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.dietaIntMoney}€</p>
+              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.dietaIntMoney.toFixed(2)}€</p>
             </div>
             <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
               <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Extra</p>
-              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.extraMoney}€</p>
+              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.extraMoney.toFixed(2)}€</p>
             </div>
             <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
               <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Pernocta</p>
-              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.pernoctaMoney}€</p>
+              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.pernoctaMoney.toFixed(2)}€</p>
+            </div>
+            <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
+              <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Kilometraje</p>
+              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.kilometrajeMoney.toFixed(2)}€</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">{summary.totalKm.toFixed(1)} km</p>
             </div>
             <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
               <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Propinas</p>
-              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.propinasMoney}€</p>
+              <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.propinasMoney.toFixed(2)}€</p>
+            </div>
+            {summary.statusMoney > 0 && (
+              <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
+                <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Pagos por Estado</p>
+                <p className="text-xl font-bold text-slate-800 dark:text-slate-100">{summary.statusMoney.toFixed(2)}€</p>
+              </div>
+            )}
+            <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4">
+              <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Gastos a Reembolsar</p>
+              <p className="text-xl font-bold text-amber-600 dark:text-amber-400">{expenseSummary.reimbursable.toFixed(2)}€</p>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                {expenseSummary.total.toFixed(2)}€ en {expenseSummary.count} gasto(s)
+              </p>
             </div>
           </div>
+          {expenseSummary.count > 0 && (
+            <p className="mt-4 text-sm text-slate-600 dark:text-slate-400">
+              Gastos: {describeCategoryTotals(expenseSummary).join(' · ')}
+            </p>
+          )}
+          {describeStatusCounts(summary.statusDays).length > 0 && (
+            <p className="mt-4 text-sm text-slate-600 dark:text-slate-400">
+              {describeStatusCounts(summary.statusDays).join(' · ')}
+            </p>
+          )}
           <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-600">
             <div className="flex justify-between items-center">
               <span className="text-lg font-semibold text-slate-700 dark:text-slate-300">Total General</span>
-              <span className="text-2xl font-bold text-green-600 dark:text-green-400">{summary.totalMoney}€</span>
+              <span className="text-2xl font-bold text-green-600 dark:text-green-400">{summary.totalMoney.toFixed(2)}€</span>
             </div>
           </div>
         </div>
 
+        {/* Compliance */}
+        <CompliancePanel issues={complianceIssues} />
+
         {/* Table */}
         <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md overflow-hidden border border-slate-200 dark:border-slate-700">
           <div className="overflow-x-auto">
@@ -849,8 +1689,10 @@ function App() {
               <thead className="bg-slate-100 dark:bg-slate-700">
                 <tr>
                   <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Fecha</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Estado</th>
                   <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Inicio</th>
                   <th className="px-4 py-3 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Fin</th>
+                  <th className="px-4 py-3 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Pausas</th>
                   <th className="px-4 py-3 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Horas</th>
                   <th className="px-4 py-3 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Dieta Normal</th>
                   <th className="px-4 py-3 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Dieta Finde</th>
@@ -858,6 +1700,8 @@ function App() {
                   <th className="px-4 py-3 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Dieta Int</th>
                   <th className="px-4 py-3 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Extra</th>
                   <th className="px-4 py-3 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Pernocta</th>
+                  <th className="px-4 py-3 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Km</th>
+                  <th className="px-4 py-3 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Gastos</th>
                   {showPropinas && (
                     <th className="px-4 py-3 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase tracking-wider">Propinas</th>
                   )}
@@ -868,7 +1712,7 @@ function App() {
                   <tr
                     key={day.dateStr}
                     className={`
-                      ${day.isWeekend ? 'bg-blue-50 dark:bg-blue-900/20' : 'bg-white dark:bg-slate-800'}
+                      ${day.holiday ? 'bg-amber-50 dark:bg-amber-900/20' : day.isWeekend ? 'bg-blue-50 dark:bg-blue-900/20' : 'bg-white dark:bg-slate-800'}
                       hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors
                     `}
                   >
@@ -880,28 +1724,108 @@ function App() {
                         <span className="text-xs text-slate-500 dark:text-slate-400">
                           {format(day.date, 'EEE', { locale: es })}
                         </span>
+                        {day.holiday && (
+                          <span className="text-xs font-medium text-amber-700 dark:text-amber-400" title={day.holiday.name}>
+                            Festivo
+                          </span>
+                        )}
+                        {complianceIssuesByDate[day.dateStr] && (
+                          <span
+                            className={`flex items-center gap-1 text-xs font-medium ${complianceIssuesByDate[day.dateStr].some(issue => issue.severity === 'violation')
+                              ? 'text-red-600 dark:text-red-400'
+                              : 'text-amber-600 dark:text-amber-400'}`}
+                            title={complianceIssuesByDate[day.dateStr].map(issue => issue.message).join('\n')}
+                          >
+                            <AlertTriangle className="w-3 h-3" />
+                            {complianceIssuesByDate[day.dateStr].length}
+                          </span>
+                        )}
                       </div>
                     </td>
                     <td className="px-4 py-3">
-                      <input
-                        type="time"
-                        value={day.startTime}
-                        onChange={(e) => updateDayData(day.dateStr, 'startTime', e.target.value)}
-                        className="w-24 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
+                      <select
+                        value={day.status}
+                        onChange={(e) => updateDayData(day.dateStr, 'status', e.target.value)}
+                        className={`px-2 py-1 text-xs font-medium rounded border-0 focus:ring-2 focus:ring-blue-500 ${getStatusInfo(day.status).badgeClass}`}
+                      >
+                        {DAY_STATUSES.map(({ status, label }) => (
+                          <option key={status} value={status}>{label}</option>
+                        ))}
+                      </select>
                     </td>
                     <td className="px-4 py-3">
-                      <input
-                        type="time"
-                        value={day.endTime}
-                        onChange={(e) => updateDayData(day.dateStr, 'endTime', e.target.value)}
-                        className="w-24 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                      />
+                      <div className="flex flex-col gap-1">
+                        {day.intervals.map((interval, index) => (
+                          <input
+                            key={index}
+                            type="time"
+                            value={interval.startTime}
+                            onChange={(e) => updateInterval(day.dateStr, index, 'startTime', e.target.value)}
+                            className="w-24 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        ))}
+                        <button
+                          onClick={() => addInterval(day.dateStr)}
+                          className="flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                          title="Añadir otro tramo de trabajo en este día"
+                        >
+                          <Plus className="w-3 h-3" />
+                          Tramo
+                        </button>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex flex-col gap-1">
+                        {day.intervals.map((interval, index) => (
+                          <div key={index} className="flex items-center gap-1">
+                            <input
+                              type="time"
+                              value={interval.endTime}
+                              onChange={(e) => updateInterval(day.dateStr, index, 'endTime', e.target.value)}
+                              className="w-24 px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            {day.intervals.length > 1 && (
+                              <button
+                                onClick={() => removeInterval(day.dateStr, index)}
+                                className="p-1 rounded text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                                title="Quitar tramo"
+                              >
+                                <Minus className="w-3 h-3" />
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
                     </td>
                     <td className="px-4 py-3 text-center">
-                      <span className="text-sm font-medium text-slate-800 dark:text-slate-200">
-                        {day.hours.toFixed(2)}
-                      </span>
+                      <button
+                        onClick={() => setBreaksDate(day.dateStr)}
+                        className="inline-flex flex-col items-center px-2 py-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                        title={formatBreaks(day.breaks) || 'Añadir pausas'}
+                      >
+                        {day.breakHours > 0 ? (
+                          <>
+                            <span className="text-sm font-semibold text-slate-800 dark:text-slate-200">{Math.round(day.breakHours * 60)} min</span>
+                            {day.unpaidBreakHours > 0 && (
+                              <span className="text-xs text-slate-500 dark:text-slate-400">-{day.unpaidBreakHours.toFixed(2)} h</span>
+                            )}
+                          </>
+                        ) : (
+                          <Coffee className="w-4 h-4 text-slate-400 dark:text-slate-500" />
+                        )}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <div className="flex flex-col">
+                        <span className="text-sm font-medium text-slate-800 dark:text-slate-200">
+                          {day.hours.toFixed(2)}
+                        </span>
+                        {day.overtimeHours > 0 && (
+                          <span className="text-xs text-orange-600 dark:text-orange-400">
+                            +{day.overtimeHours.toFixed(2)} extra
+                          </span>
+                        )}
+                      </div>
                     </td>
                     <td className="px-4 py-3 text-center">
                       <span className={`text-sm font-semibold ${day.dietaNormal > 0 ? 'text-green-600 dark:text-green-400' : 'text-slate-400 dark:text-slate-600'}`}>
@@ -914,9 +1838,16 @@ function App() {
                       </span>
                     </td>
                     <td className="px-4 py-3 text-center">
-                      <span className={`text-sm font-semibold ${day.nocturnidad > 0 ? 'text-purple-600 dark:text-purple-400' : 'text-slate-400 dark:text-slate-600'}`}>
-                        {day.nocturnidad > 0 ? `${day.nocturnidad}€` : '-'}
-                      </span>
+                      <div className="flex flex-col">
+                        <span className={`text-sm font-semibold ${day.nocturnidad > 0 ? 'text-purple-600 dark:text-purple-400' : 'text-slate-400 dark:text-slate-600'}`}>
+                          {day.nocturnidad > 0 ? `${day.nocturnidad.toFixed(2)}€` : '-'}
+                        </span>
+                        {day.nightHours > 0 && (
+                          <span className="text-xs text-slate-500 dark:text-slate-400">
+                            {day.nightHours.toFixed(2)} h
+                          </span>
+                        )}
+                      </div>
                     </td>
                     <td className="px-4 py-3 text-center">
                       <input
@@ -945,6 +1876,37 @@ function App() {
                         className="w-16 px-2 py-1 text-sm text-center border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       />
                     </td>
+                    <td className="px-4 py-3 text-center">
+                      <button
+                        onClick={() => setTripsDate(day.dateStr)}
+                        className="inline-flex flex-col items-center px-2 py-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                        title={day.trips.length > 0 ? `${day.trips.length} viaje(s)` : 'Añadir viajes'}
+                      >
+                        {day.km > 0 ? (
+                          <>
+                            <span className="text-sm font-semibold text-cyan-600 dark:text-cyan-400">{day.km.toFixed(1)}</span>
+                            <span className="text-xs text-slate-500 dark:text-slate-400">{day.kilometrajeMoney.toFixed(2)}€</span>
+                          </>
+                        ) : (
+                          <Route className="w-4 h-4 text-slate-400 dark:text-slate-500" />
+                        )}
+                      </button>
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <button
+                        onClick={() => setExpensesDate(day.dateStr)}
+                        className="inline-flex flex-col items-center px-2 py-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                        title={expenseTotalsByDate[day.dateStr] ? `${expenseTotalsByDate[day.dateStr].count} gasto(s)` : 'Añadir gastos'}
+                      >
+                        {expenseTotalsByDate[day.dateStr] ? (
+                          <span className="text-sm font-semibold text-amber-600 dark:text-amber-400">
+                            {expenseTotalsByDate[day.dateStr].total.toFixed(2)}€
+                          </span>
+                        ) : (
+                          <Coins className="w-4 h-4 text-slate-400 dark:text-slate-500" />
+                        )}
+                      </button>
+                    </td>
                     {showPropinas && (
                       <td className="px-4 py-3 text-center">
                         <input
@@ -1006,6 +1968,16 @@ function App() {
                 />
               </div>
 
+              <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={pdfSignatures}
+                  onChange={(e) => setPdfSignatures(e.target.checked)}
+                  className="w-4 h-4"
+                />
+                Incluir líneas de firma del conductor y del responsable
+              </label>
+
               <div className="flex gap-3 pt-4">
                 <button
                   onClick={() => setShowPdfExport(false)}
@@ -1025,13 +1997,157 @@ function App() {
         </div>
       )}
 
+      {/* Rates Modal */}
+      {showRates && (
+        <RatesModal
+          rateTables={rateTables}
+          onSave={handleSaveRates}
+          onClose={() => setShowRates(false)}
+        />
+      )}
+
+      {/* Holidays Modal */}
+      {showHolidays && (
+        <HolidaysModal
+          settings={holidaySettings}
+          year={getYear(currentDate)}
+          onSave={handleSaveHolidays}
+          onClose={() => setShowHolidays(false)}
+        />
+      )}
+
+      {/* Day Status Modal */}
+      {showStatuses && (
+        <DayStatusModal
+          settings={statusSettings}
+          onSave={handleSaveStatuses}
+          onClose={() => setShowStatuses(false)}
+        />
+      )}
+
+      {/* Periods Modal */}
+      {showPeriods && (
+        <PeriodsModal
+          definitions={periodDefinitions}
+          onSave={handleSavePeriods}
+          onClose={() => setShowPeriods(false)}
+        />
+      )}
+
+      {/* Payslip Modal */}
+      {showPayslip && (
+        <PayslipModal
+          range={range}
+          expected={getExpectedAmounts(summary)}
+          payslips={payslips}
+          onSave={handleSavePayslip}
+          onClose={() => setShowPayslip(false)}
+        />
+      )}
+
+      {/* Profile Modal */}
+      {showProfile && (
+        <ProfileModal
+          profile={profile}
+          onSave={handleSaveProfile}
+          onClose={() => setShowProfile(false)}
+        />
+      )}
+
+      {/* Net Pay Modal */}
+      {showNetPay && (
+        <NetPayModal
+          settings={netPaySettings}
+          onSave={handleSaveNetPay}
+          onClose={() => setShowNetPay(false)}
+        />
+      )}
+
+      {/* Reminders Modal */}
+      {showReminders && (
+        <RemindersModal
+          settings={reminderSettings}
+          onSave={handleSaveReminders}
+          onClose={() => setShowReminders(false)}
+        />
+      )}
+
+      {/* Breaks Modal */}
+      {breaksDate && (
+        <BreaksModal
+          dateStr={breaksDate}
+          breaks={(allData[breaksDate] || createEmptyDay(breaksDate)).breaks}
+          onSave={(breaks) => handleSaveBreaks(breaksDate, breaks)}
+          onClose={() => setBreaksDate(null)}
+        />
+      )}
+
+      {/* Trips Modal */}
+      {tripsDate && (
+        <TripsModal
+          dateStr={tripsDate}
+          trips={(allData[tripsDate] || createEmptyDay(tripsDate)).trips}
+          kilometrajeRate={getRatesForDate(rateTables, tripsDate).kilometraje}
+          onSave={(trips) => handleSaveTrips(tripsDate, trips)}
+          onClose={() => setTripsDate(null)}
+        />
+      )}
+
+      {/* Expenses Modal */}
+      {expensesDate && store && (
+        <ExpensesModal
+          dateStr={expensesDate}
+          expenses={expenses.filter(expense => expense.date === expensesDate)}
+          store={store}
+          onSave={(dayExpenses, newReceipts, deletedReceiptIds) =>
+            handleSaveExpenses(expensesDate, dayExpenses, newReceipts, deletedReceiptIds)}
+          onClose={() => setExpensesDate(null)}
+        />
+      )}
+
+      {/* CSV Modal */}
+      {showCsv && (
+        <CsvModal
+          onExport={generateCsvReport}
+          onImport={handleCsvImport}
+          onClose={() => setShowCsv(false)}
+        />
+      )}
+
+      {/* Backup Modal */}
+      {showBackup && store && (
+        <BackupModal
+          store={store}
+          settings={{
+            rateTables,
+            holidays: holidaySettings,
+            statuses: statusSettings,
+            netPay: netPaySettings,
+            periods: periodDefinitions,
+            preferences: { darkMode, showPropinas },
+            reminders: reminderSettings,
+          }}
+          records={{ payslips, profile, expenses }}
+          onRestore={handleBackupRestore}
+          onClose={() => setShowBackup(false)}
+        />
+      )}
+
+      {/* Change PIN Modal */}
+      {showChangePin && (
+        <ChangePinModal
+          onChangePin={handleChangePin}
+          onClose={() => setShowChangePin(false)}
+        />
+      )}
+
       {/* Annual Summary Modal */}
       {showAnnualSummary && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-4xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
             <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
               <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
-                Resumen Anual {getYear(currentDate)} (Nóminas)
+                Resumen Anual {annualYear} (Nóminas)
               </h2>
               <button
                 onClick={() => setShowAnnualSummary(false)}
@@ -1055,6 +2171,11 @@ function App() {
                   <p className="text-3xl font-bold text-blue-600 dark:text-blue-400">
                     {annualSummary.totalHours.toFixed(2)}h
                   </p>
+                  {annualSummary.overtimeHours > 0 && (
+                    <p className="text-sm text-orange-600 dark:text-orange-400 mt-1">
+                      {annualSummary.overtimeHours.toFixed(2)}h extra
+                    </p>
+                  )}
                 </div>
                 <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
                   <p className="text-sm text-slate-600 dark:text-slate-400 mb-2">Días Trabajados</p>
@@ -1071,17 +2192,17 @@ function App() {
                   <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
                     <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Unidades Dieta Normal</p>
                     <p className="text-2xl font-bold text-slate-800 dark:text-slate-100">{annualSummary.dietaNormalUnits}</p>
-                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{(annualSummary.dietaNormalUnits * 15).toFixed(2)}€</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{annualSummary.dietaNormalMoney.toFixed(2)}€</p>
                   </div>
                   <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
                     <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Unidades Dieta Finde</p>
                     <p className="text-2xl font-bold text-slate-800 dark:text-slate-100">{annualSummary.dietaFindeUnits}</p>
-                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{(annualSummary.dietaFindeUnits * 20).toFixed(2)}€</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{annualSummary.dietaFindeMoney.toFixed(2)}€</p>
                   </div>
                   <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
                     <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Total Dietas</p>
                     <p className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                      {((annualSummary.dietaNormalUnits * 15) + (annualSummary.dietaFindeUnits * 20)).toFixed(2)}€
+                      {annualSummary.totalDietas.toFixed(2)}€
                     </p>
                   </div>
                   <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
@@ -1089,6 +2210,14 @@ function App() {
                     <p className="text-2xl font-bold text-slate-800 dark:text-slate-100">
                       {annualSummary.nocturnidadMoney.toFixed(2)}€
                     </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{annualSummary.nightHours.toFixed(2)} h nocturnas</p>
+                  </div>
+                  <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Horas Extra</p>
+                    <p className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+                      {annualSummary.overtimeMoney.toFixed(2)}€
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{annualSummary.overtimeHours.toFixed(2)} h</p>
                   </div>
                   <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
                     <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Dieta Int</p>
@@ -1108,19 +2237,194 @@ function App() {
                       {annualSummary.pernoctaMoney.toFixed(2)}€
                     </p>
                   </div>
+                  <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Kilometraje</p>
+                    <p className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+                      {annualSummary.kilometrajeMoney.toFixed(2)}€
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">{annualSummary.totalKm.toFixed(1)} km</p>
+                  </div>
                   <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
                     <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Propinas</p>
                     <p className="text-2xl font-bold text-slate-800 dark:text-slate-100">
                       {annualSummary.propinasMoney.toFixed(2)}€
                     </p>
                   </div>
+                  {annualSummary.statusMoney > 0 && (
+                    <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
+                      <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Pagos por Estado</p>
+                      <p className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+                        {annualSummary.statusMoney.toFixed(2)}€
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Per Period */}
+              <div>
+                <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-4">Por Periodo de Nómina</h3>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-slate-600 dark:text-slate-400 border-b border-slate-200 dark:border-slate-600">
+                        <th className="py-2 pr-3 font-medium">Periodo</th>
+                        <th className="py-2 pr-3 font-medium text-right">Días</th>
+                        <th className="py-2 pr-3 font-medium text-right">Horas</th>
+                        {INCOME_CONCEPTS.map(({ key, label }) => (
+                          <th key={key} className="py-2 pr-3 font-medium text-right">{label}</th>
+                        ))}
+                        <th className="py-2 font-medium text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-200 dark:divide-slate-700 text-slate-800 dark:text-slate-200">
+                      {annualBreakdown.periods.map(({ period, summary: periodSummary }) => (
+                        <tr key={period.startDate.getTime()}>
+                          <td className="py-2 pr-3 capitalize">{period.label}</td>
+                          <td className="py-2 pr-3 text-right">{periodSummary.daysWorked}</td>
+                          <td className="py-2 pr-3 text-right">{periodSummary.totalHours.toFixed(2)}</td>
+                          {INCOME_CONCEPTS.map(({ key, getValue }) => (
+                            <td key={key} className="py-2 pr-3 text-right">{getValue(periodSummary).toFixed(2)}€</td>
+                          ))}
+                          <td className="py-2 text-right font-semibold">{periodSummary.totalMoney.toFixed(2)}€</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              {/* Charts */}
+              <div className="space-y-6">
+                <div>
+                  <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-2">Ingresos por Concepto</h3>
+                  <BarChart
+                    labels={chartLabels}
+                    unit="€"
+                    series={INCOME_CONCEPTS.map(({ key, label, getValue }) => ({
+                      label,
+                      color: CONCEPT_COLORS[key],
+                      values: annualBreakdown.periods.map(({ summary: periodSummary }) => getValue(periodSummary)),
+                    }))}
+                  />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-2">Horas Trabajadas</h3>
+                  <LineChart
+                    labels={chartLabels}
+                    unit="h"
+                    series={[
+                      {
+                        label: String(annualYear),
+                        color: '#2563eb',
+                        values: annualBreakdown.periods.map(({ summary: periodSummary }) => periodSummary.totalHours),
+                      },
+                      {
+                        label: String(annualYear - 1),
+                        color: '#94a3b8',
+                        values: annualBreakdown.previousPeriods.map(({ summary: periodSummary }) => periodSummary.totalHours),
+                      },
+                    ]}
+                  />
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-2">Días Trabajados</h3>
+                  <BarChart
+                    labels={chartLabels}
+                    unit=""
+                    series={[{
+                      label: 'Días Trabajados',
+                      color: '#9333ea',
+                      values: annualBreakdown.periods.map(({ summary: periodSummary }) => periodSummary.daysWorked),
+                    }]}
+                  />
+                </div>
+              </div>
+
+              {/* Year over Year */}
+              <div>
+                <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-4">Comparación con {annualYear - 1}</h3>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-slate-600 dark:text-slate-400 border-b border-slate-200 dark:border-slate-600">
+                      <th className="py-2 pr-3 font-medium">Concepto</th>
+                      <th className="py-2 pr-3 font-medium text-right">{annualYear - 1}</th>
+                      <th className="py-2 pr-3 font-medium text-right">{annualYear}</th>
+                      <th className="py-2 font-medium text-right">Variación</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200 dark:divide-slate-700 text-slate-800 dark:text-slate-200">
+                    {COMPARISON_METRICS.map(({ key, label, unit, getValue }) => {
+                      const current = getValue(annualSummary);
+                      const previous = getValue(annualBreakdown.previousSummary);
+                      const change = getPercentChange(current, previous);
+                      return (
+                        <tr key={key}>
+                          <td className="py-2 pr-3">{label}</td>
+                          <td className="py-2 pr-3 text-right">{formatMetric(previous, unit)}</td>
+                          <td className="py-2 pr-3 text-right">{formatMetric(current, unit)}</td>
+                          <td className={`py-2 text-right font-semibold ${
+                            change === null ? 'text-slate-400' : change >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                          }`}>
+                            {change === null ? '-' : `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Net Pay Estimate */}
+              <div>
+                <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-4">Estimación de Neto</h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Salario Base</p>
+                    <p className="text-2xl font-bold text-slate-800 dark:text-slate-100">{annualNetPay.baseSalary.toFixed(2)}€</p>
+                  </div>
+                  <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Bruto</p>
+                    <p className="text-2xl font-bold text-slate-800 dark:text-slate-100">{annualNetPay.grossPay.toFixed(2)}€</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                      Dietas exentas {annualNetPay.exemptDietas.toFixed(2)}€ · sujetas {annualNetPay.taxableDietas.toFixed(2)}€
+                    </p>
+                  </div>
+                  <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Retenciones</p>
+                    <p className="text-2xl font-bold text-red-600 dark:text-red-400">
+                      -{(annualNetPay.socialSecurity + annualNetPay.irpf).toFixed(2)}€
+                    </p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                      Seg. Social {annualNetPay.socialSecurity.toFixed(2)}€ · IRPF {annualNetPay.irpf.toFixed(2)}€
+                    </p>
+                  </div>
+                  <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
+                    <p className="text-sm text-slate-600 dark:text-slate-400 mb-1">Neto Estimado</p>
+                    <p className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">{annualNetPay.netPay.toFixed(2)}€</p>
+                  </div>
+                </div>
+              </div>
+
+              {/* Day Statuses */}
+              <div>
+                <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-4">Días por Estado</h3>
+                <p className="text-sm text-slate-700 dark:text-slate-300 mb-3">
+                  {annualSummary.statusDays.vacation} días de vacaciones usados de {statusSettings.vacationDaysPerYear}
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {DAY_STATUSES.map(({ status, label, badgeClass }) => (
+                    <span key={status} className={`px-3 py-1 rounded-full text-sm font-medium ${badgeClass}`}>
+                      {label}: {annualSummary.statusDays[status]}
+                    </span>
+                  ))}
                 </div>
               </div>
 
               {/* Total Summary */}
               <div className="bg-gradient-to-r from-green-50 to-emerald-50 dark:from-green-900/30 dark:to-emerald-900/30 rounded-lg p-6 border border-green-200 dark:border-green-800">
                 <div className="flex justify-between items-center">
-                  <span className="text-xl font-semibold text-slate-700 dark:text-slate-300">Total General (Año {getYear(currentDate)})</span>
+                  <span className="text-xl font-semibold text-slate-700 dark:text-slate-300">Total General (Año {annualYear})</span>
                   <span className="text-4xl font-bold text-green-600 dark:text-green-400">{annualSummary.totalMoney.toFixed(2)}€</span>
                 </div>
               </div>
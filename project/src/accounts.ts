@@ -0,0 +1,73 @@
+const ACCOUNTS_STORAGE_KEY = 'app-accounts';
+const LAST_ACCOUNT_STORAGE_KEY = 'app-last-account';
+const PREFERENCES_STORAGE_KEY = 'app-preferences';
+
+// A driver using the device. Each account has its own PIN, settings and
+// timesheet database; nothing is shared between accounts.
+export interface Account {
+  id: string;
+  name: string;
+}
+
+// The account that existed before there were several. It keeps the original
+// unprefixed storage keys and database, so its data never has to move.
+export const DEFAULT_ACCOUNT: Account = { id: 'default', name: 'Conductor principal' };
+
+export interface AccountPreferences {
+  darkMode: boolean;
+  showPropinas: boolean;
+}
+
+export const DEFAULT_PREFERENCES: AccountPreferences = {
+  darkMode: false,
+  showPropinas: true,
+};
+
+// The storage key (localStorage entry or IndexedDB name) `baseKey` has for
+// the account.
+export const accountKey = (baseKey: string, accountId: string): string =>
+  accountId === DEFAULT_ACCOUNT.id ? baseKey : `${baseKey}:${accountId}`;
+
+export const loadAccounts = (): Account[] => {
+  const stored = localStorage.getItem(ACCOUNTS_STORAGE_KEY);
+  if (!stored) return [DEFAULT_ACCOUNT];
+
+  try {
+    const parsed = JSON.parse(stored) as Account[];
+    return Array.isArray(parsed) && parsed.length > 0 ? parsed : [DEFAULT_ACCOUNT];
+  } catch {
+    return [DEFAULT_ACCOUNT];
+  }
+};
+
+export const createAccount = (name: string): Account[] => {
+  const accounts = loadAccounts();
+  const updated = [...accounts, { id: `account-${Date.now()}`, name: name.trim() }];
+  localStorage.setItem(ACCOUNTS_STORAGE_KEY, JSON.stringify(updated));
+  return updated;
+};
+
+export const getLastAccountId = (): string => {
+  const accounts = loadAccounts();
+  const stored = localStorage.getItem(LAST_ACCOUNT_STORAGE_KEY);
+  return accounts.find(account => account.id === stored)?.id ?? accounts[0].id;
+};
+
+export const setLastAccountId = (accountId: string) => {
+  localStorage.setItem(LAST_ACCOUNT_STORAGE_KEY, accountId);
+};
+
+export const loadPreferences = (accountId: string): AccountPreferences => {
+  const stored = localStorage.getItem(accountKey(PREFERENCES_STORAGE_KEY, accountId));
+  if (!stored) return DEFAULT_PREFERENCES;
+
+  try {
+    return { ...DEFAULT_PREFERENCES, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = (accountId: string, preferences: AccountPreferences) => {
+  localStorage.setItem(accountKey(PREFERENCES_STORAGE_KEY, accountId), JSON.stringify(preferences));
+};
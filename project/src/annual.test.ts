@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { INCOME_CONCEPTS, getPercentChange, summarizeByPeriod } from './annual';
+import { CalculationContext, calculateDays } from './calculations';
+import { DEFAULT_DAY_STATUS_SETTINGS } from './dayStatus';
+import { DEFAULT_PERIOD_DEFINITION, getFiscalPeriodsInRange } from './fiscal';
+import { DEFAULT_HOLIDAY_SETTINGS } from './holidays';
+import { DEFAULT_RATE_TABLE } from './rates';
+import { TimesheetData, createEmptyDay } from './types';
+
+const CONTEXT: CalculationContext = {
+  rateTables: [DEFAULT_RATE_TABLE],
+  holidays: DEFAULT_HOLIDAY_SETTINGS,
+  statuses: DEFAULT_DAY_STATUS_SETTINGS,
+  periods: [DEFAULT_PERIOD_DEFINITION],
+};
+
+describe('summarizeByPeriod', () => {
+  const data: TimesheetData = {
+    '2024-03-20': { ...createEmptyDay('2024-03-20'), intervals: [{ startTime: '08:00', endTime: '18:00' }], pernocta: 1 },
+    '2024-03-27': { ...createEmptyDay('2024-03-27'), intervals: [{ startTime: '22:00', endTime: '06:00' }], extra: 1 },
+  };
+  const days = calculateDays(data, CONTEXT);
+  const periods = getFiscalPeriodsInRange(new Date(2024, 1, 26), new Date(2024, 3, 25), [DEFAULT_PERIOD_DEFINITION]);
+  const breakdown = summarizeByPeriod(days, periods, { includePropinas: true });
+
+  it('summarizes every day in its own payroll period', () => {
+    expect(breakdown.map(row => row.summary.totalHours)).toEqual([10, 8]);
+    expect(breakdown[0].summary.pernoctaMoney).toBe(40);
+    expect(breakdown[1].summary.extraMoney).toBe(120);
+  });
+
+  it('has income concepts adding up to the total', () => {
+    breakdown.forEach(({ summary }) => {
+      const sum = INCOME_CONCEPTS.reduce((total, concept) => total + concept.getValue(summary), 0);
+      expect(sum).toBeCloseTo(summary.totalMoney);
+    });
+  });
+});
+
+describe('getPercentChange', () => {
+  it('compares against the previous value', () => {
+    expect(getPercentChange(110, 100)).toBeCloseTo(10);
+    expect(getPercentChange(50, 100)).toBeCloseTo(-50);
+  });
+
+  it('has no change to report without a previous value', () => {
+    expect(getPercentChange(100, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import { CalculationOptions, DayCalculation, PeriodSummary, summarizeDays } from './calculations';
+import { FiscalDateRange, isDateStrInRange } from './fiscal';
+
+export interface PeriodBreakdown {
+  period: FiscalDateRange;
+  summary: PeriodSummary;
+}
+
+export interface SummaryMetric {
+  key: string;
+  label: string;
+  unit: '€' | 'h' | 'km' | 'días';
+  getValue: (summary: PeriodSummary) => number;
+}
+
+// The income concepts stacked in the annual charts; together they add up to
+// totalMoney.
+export const INCOME_CONCEPTS: SummaryMetric[] = [
+  { key: 'dietas', label: 'Dietas', unit: '€', getValue: summary => summary.totalDietas },
+  { key: 'nocturnidad', label: 'Nocturnidad', unit: '€', getValue: summary => summary.nocturnidadMoney },
+  { key: 'extras', label: 'Extras', unit: '€', getValue: summary => summary.totalExtras },
+  { key: 'overtime', label: 'Horas Extra', unit: '€', getValue: summary => summary.overtimeMoney },
+  { key: 'kilometraje', label: 'Kilometraje', unit: '€', getValue: summary => summary.kilometrajeMoney },
+  { key: 'status', label: 'Pagos por Estado', unit: '€', getValue: summary => summary.statusMoney },
+];
+
+export const COMPARISON_METRICS: SummaryMetric[] = [
+  { key: 'total', label: 'Total Ingresos', unit: '€', getValue: summary => summary.totalMoney },
+  ...INCOME_CONCEPTS,
+  { key: 'hours', label: 'Horas', unit: 'h', getValue: summary => summary.totalHours },
+  { key: 'overtimeHours', label: 'Horas Extra', unit: 'h', getValue: summary => summary.overtimeHours },
+  { key: 'km', label: 'Kilómetros', unit: 'km', getValue: summary => summary.totalKm },
+  { key: 'days', label: 'Días Trabajados', unit: 'días', getValue: summary => summary.daysWorked },
+];
+
+export const summarizeByPeriod = (
+  days: DayCalculation[],
+  periods: FiscalDateRange[],
+  options: CalculationOptions,
+): PeriodBreakdown[] =>
+  periods.map(period => ({
+    period,
+    summary: summarizeDays(days.filter(day => isDateStrInRange(day.dateStr, period.startDate, period.endDate)), options),
+  }));
+
+// Change from `previous` to `current` in percent; null when there is nothing
+// to compare against.
+export const getPercentChange = (current: number, previous: number): number | null =>
+  previous === 0 ? null : (current - previous) / Math.abs(previous) * 100;
+
+export const formatMetric = (value: number, unit: SummaryMetric['unit']): string => {
+  if (unit === 'días') return `${value} días`;
+  if (unit === 'km') return `${value.toFixed(1)} km`;
+  return `${value.toFixed(2)}${unit}`;
+};
@@ -0,0 +1,152 @@
+import { accountKey } from './accounts';
+
+const PIN_STORAGE_KEY = 'app-pin';
+const LOCKOUT_STORAGE_KEY = 'app-pin-lockout';
+
+const PBKDF2_ITERATIONS = 150000;
+const FREE_ATTEMPTS = 3;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+export interface StoredPin {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
+interface LockoutState {
+  failedAttempts: number;
+  lockedUntil: number;
+}
+
+export type LoginResult =
+  | { ok: true }
+  | { ok: false; lockedUntil: number; attemptsLeft: number };
+
+export const isValidPin = (pin: string): boolean => /^\d{4}$/.test(pin);
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const base64ToBytes = (value: string) =>
+  Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const hashPin = async (pin: string, salt: BufferSource, iterations: number): Promise<string> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(pin),
+    'PBKDF2',
+    false,
+    ['deriveBits'],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    baseKey,
+    256,
+  );
+  return bytesToBase64(new Uint8Array(bits));
+};
+
+// Compares every character so the time taken does not leak how much matched.
+const constantTimeEquals = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+const readStoredPin = (accountId: string): StoredPin | string | null => {
+  const stored = localStorage.getItem(accountKey(PIN_STORAGE_KEY, accountId));
+  if (!stored) return null;
+
+  try {
+    const parsed = JSON.parse(stored);
+    if (parsed && typeof parsed.hash === 'string' && typeof parsed.salt === 'string') {
+      return parsed as StoredPin;
+    }
+  } catch {
+    // Older versions stored the PIN itself as plain text.
+  }
+
+  return stored;
+};
+
+const readLockout = (accountId: string): LockoutState => {
+  const stored = localStorage.getItem(accountKey(LOCKOUT_STORAGE_KEY, accountId));
+  if (!stored) return { failedAttempts: 0, lockedUntil: 0 };
+
+  try {
+    return JSON.parse(stored) as LockoutState;
+  } catch {
+    return { failedAttempts: 0, lockedUntil: 0 };
+  }
+};
+
+const writeLockout = (accountId: string, state: LockoutState) => {
+  localStorage.setItem(accountKey(LOCKOUT_STORAGE_KEY, accountId), JSON.stringify(state));
+};
+
+export const hasPin = (accountId: string): boolean => readStoredPin(accountId) !== null;
+
+export const getLockedUntil = (accountId: string): number => readLockout(accountId).lockedUntil;
+
+export const createPinRecord = async (pin: string): Promise<StoredPin> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await hashPin(pin, salt, PBKDF2_ITERATIONS);
+  return { salt: bytesToBase64(salt), hash, iterations: PBKDF2_ITERATIONS };
+};
+
+// Synchronous, so a PIN change can store it the moment the data has been
+// re-encrypted and never leave the two out of step.
+export const savePinRecord = (accountId: string, record: StoredPin) => {
+  localStorage.setItem(accountKey(PIN_STORAGE_KEY, accountId), JSON.stringify(record));
+};
+
+export const setPin = async (accountId: string, pin: string) => {
+  savePinRecord(accountId, await createPinRecord(pin));
+};
+
+export const verifyPin = async (accountId: string, pin: string): Promise<boolean> => {
+  const stored = readStoredPin(accountId);
+  if (stored === null) return false;
+
+  if (typeof stored === 'string') {
+    const matches = constantTimeEquals(pin, stored);
+    if (matches) {
+      await setPin(accountId, pin);
+    }
+    return matches;
+  }
+
+  const hash = await hashPin(pin, base64ToBytes(stored.salt), stored.iterations);
+  return constantTimeEquals(hash, stored.hash);
+};
+
+// Every failure after the free attempts doubles the wait, capped at one hour.
+export const attemptLogin = async (accountId: string, pin: string): Promise<LoginResult> => {
+  const lockout = readLockout(accountId);
+  if (lockout.lockedUntil > Date.now()) {
+    return { ok: false, lockedUntil: lockout.lockedUntil, attemptsLeft: 0 };
+  }
+
+  if (await verifyPin(accountId, pin)) {
+    writeLockout(accountId, { failedAttempts: 0, lockedUntil: 0 });
+    return { ok: true };
+  }
+
+  const failedAttempts = lockout.failedAttempts + 1;
+  const overLimit = failedAttempts - FREE_ATTEMPTS;
+  const lockedUntil = overLimit >= 0
+    ? Date.now() + Math.min(BASE_LOCKOUT_MS * 2 ** overLimit, MAX_LOCKOUT_MS)
+    : 0;
+
+  writeLockout(accountId, { failedAttempts, lockedUntil });
+  return { ok: false, lockedUntil, attemptsLeft: Math.max(FREE_ATTEMPTS - failedAttempts, 0) };
+};
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BackupRecords,
+  BackupSettings,
+  createBackup,
+  hasOtherPeriods,
+  parseBackup,
+  restoreRecords,
+  restoreSettings,
+} from './backup';
+import { DEFAULT_RATE_TABLE } from './rates';
+import { DEFAULT_HOLIDAY_SETTINGS } from './holidays';
+import { DEFAULT_DAY_STATUS_SETTINGS } from './dayStatus';
+import { DEFAULT_NET_PAY_SETTINGS } from './netPay';
+import { DEFAULT_PERIOD_DEFINITION } from './fiscal';
+import { EMPTY_PROFILE } from './profile';
+import { DEFAULT_PREFERENCES } from './accounts';
+import { DEFAULT_REMINDER_SETTINGS } from './reminders';
+import { Expense, createEmptyExpense } from './expenses';
+
+const SETTINGS: BackupSettings = {
+  rateTables: [DEFAULT_RATE_TABLE],
+  holidays: DEFAULT_HOLIDAY_SETTINGS,
+  statuses: DEFAULT_DAY_STATUS_SETTINGS,
+  netPay: DEFAULT_NET_PAY_SETTINGS,
+  periods: [DEFAULT_PERIOD_DEFINITION],
+  preferences: DEFAULT_PREFERENCES,
+  reminders: DEFAULT_REMINDER_SETTINGS,
+};
+
+const expense = (id: string, receiptId: string | null): Expense =>
+  ({ ...createEmptyExpense('2024-03-04'), id, amount: 10, receiptId });
+
+const RECEIPT = { dataUrl: 'data:image/jpeg;base64,AAAA', width: 1, height: 1 };
+
+const records = (expenses: Expense[]): BackupRecords => ({ payslips: {}, profile: EMPTY_PROFILE, expenses });
+
+const roundTrip = (settings: BackupSettings, backupRecords: BackupRecords) =>
+  parseBackup(JSON.stringify(createBackup({}, settings, backupRecords, { 'receipt-a': RECEIPT })));
+
+describe('parseBackup', () => {
+  it('leaves out what a version 1 file does not hold', () => {
+    const file = parseBackup(JSON.stringify({
+      format: 'driver-timesheet-backup',
+      version: 1,
+      schemaVersion: 1,
+      exportedAt: '2024-03-01T00:00:00.000Z',
+      months: {},
+      settings: { rateTables: [] },
+    }));
+
+    expect(file.settings.holidays).toBeUndefined();
+    expect(file.records).toBeUndefined();
+    expect(restoreSettings(SETTINGS, file, 'replace', false)).toEqual(SETTINGS);
+    expect(restoreRecords(records([expense('a', null)]), file, 'replace').records.expenses).toHaveLength(1);
+  });
+
+  it('keeps settings, records and receipt photos', () => {
+    const statuses = { ...DEFAULT_DAY_STATUS_SETTINGS, vacationDaysPerYear: 22 };
+    const reminders = { ...DEFAULT_REMINDER_SETTINGS, emptyDayEnabled: true };
+    const file = roundTrip({ ...SETTINGS, statuses, reminders }, records([expense('a', 'receipt-a')]));
+    const replaced = restoreSettings(SETTINGS, file, 'replace', false);
+
+    expect(replaced.statuses.vacationDaysPerYear).toBe(22);
+    expect(replaced.reminders.emptyDayEnabled).toBe(true);
+    expect(restoreSettings(SETTINGS, file, 'merge', false).statuses.vacationDaysPerYear).toBe(30);
+    expect(file.receipts).toEqual({ 'receipt-a': RECEIPT });
+  });
+
+  it('only takes the period definitions of the file when merging if chosen', () => {
+    const periods = [{ ...DEFAULT_PERIOD_DEFINITION, startDay: 21 }];
+    const file = roundTrip({ ...SETTINGS, periods }, records([]));
+
+    expect(hasOtherPeriods(SETTINGS, file)).toBe(true);
+    expect(restoreSettings(SETTINGS, file, 'replace', false).periods).toEqual(periods);
+    expect(restoreSettings(SETTINGS, file, 'merge', false).periods).toEqual(SETTINGS.periods);
+    expect(restoreSettings(SETTINGS, file, 'merge', true).periods).toEqual(periods);
+  });
+});
+
+describe('restoreRecords', () => {
+  it('adds the missing expenses and their photos when merging', () => {
+    const file = roundTrip(SETTINGS, records([expense('a', 'receipt-a'), expense('b', null)]));
+    const restored = restoreRecords(records([expense('b', null)]), file, 'merge');
+
+    expect(restored.records.expenses.map(item => item.id)).toEqual(['b', 'a']);
+    expect(restored.newReceipts).toEqual({ 'receipt-a': RECEIPT });
+    expect(restored.deletedReceiptIds).toEqual([]);
+  });
+
+  it('drops the photos of replaced expenses', () => {
+    const file = roundTrip(SETTINGS, records([expense('a', 'receipt-a')]));
+    const restored = restoreRecords(records([expense('c', 'receipt-c')]), file, 'replace');
+
+    expect(restored.records.expenses.map(item => item.id)).toEqual(['a']);
+    expect(restored.deletedReceiptIds).toEqual(['receipt-c']);
+  });
+});
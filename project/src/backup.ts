@@ -0,0 +1,272 @@
+import { DayData, TimesheetData, MonthMap } from './types';
+import { RateTable, sortRateTables, withRateDefaults } from './rates';
+import { HolidaySettings, withHolidayDefaults } from './holidays';
+import { DayStatusSettings, withDayStatusDefaults } from './dayStatus';
+import { NetPaySettings, withNetPayDefaults } from './netPay';
+import { PeriodDefinition, withPeriodDefaults } from './fiscal';
+import { AccountPreferences, DEFAULT_PREFERENCES } from './accounts';
+import { DEFAULT_REMINDER_SETTINGS, ReminderSettings } from './reminders';
+import { PayslipMap } from './payslip';
+import { DriverProfile, EMPTY_PROFILE } from './profile';
+import { Expense, ReceiptImage } from './expenses';
+import { SCHEMA_VERSION, upgradeMonthData } from './storage';
+
+const BACKUP_FORMAT = 'driver-timesheet-backup';
+// Version 1 only held the months and the rate tables.
+const BACKUP_VERSION = 2;
+
+export interface BackupSettings {
+  rateTables: RateTable[];
+  holidays: HolidaySettings;
+  statuses: DayStatusSettings;
+  netPay: NetPaySettings;
+  periods: PeriodDefinition[];
+  preferences: AccountPreferences;
+  reminders: ReminderSettings;
+}
+
+// The data kept encrypted next to the months.
+export interface BackupRecords {
+  payslips: PayslipMap;
+  profile: DriverProfile;
+  expenses: Expense[];
+}
+
+export interface ReceiptMap {
+  [receiptId: string]: ReceiptImage;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Settings and records missing from a file (older versions) are left out
+// rather than filled with defaults, so restoring it keeps the current ones.
+export interface BackupFile {
+  format: string;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  months: MonthMap;
+  settings: Partial<BackupSettings> & { rateTables: RateTable[] };
+  records?: BackupRecords;
+  receipts?: ReceiptMap;
+}
+
+export interface RecordsRestore {
+  records: BackupRecords;
+  // The photos to write, and the stored ones no expense refers to any more.
+  newReceipts: ReceiptMap;
+  deletedReceiptIds: string[];
+}
+
+export interface DayConflict {
+  dateStr: string;
+  monthKey: string;
+  stored: DayData;
+  incoming: DayData;
+  changedFields: Array<keyof DayData>;
+}
+
+export const createBackup = (
+  months: MonthMap,
+  settings: BackupSettings,
+  records: BackupRecords,
+  receipts: ReceiptMap,
+): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: new Date().toISOString(),
+  months,
+  settings,
+  records,
+  receipts,
+});
+
+// Validates an uploaded file and upgrades its months to the current schema.
+// Throws with a message that can be shown to the user as is.
+export const parseBackup = (text: string): BackupFile => {
+  let parsed: BackupFile;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no es un JSON válido');
+  }
+
+  if (!parsed || parsed.format !== BACKUP_FORMAT) {
+    throw new Error('El archivo no es una copia de seguridad de Driver Timesheet');
+  }
+  if (parsed.version > BACKUP_VERSION || parsed.schemaVersion > SCHEMA_VERSION) {
+    throw new Error('La copia se creó con una versión más reciente de la aplicación');
+  }
+  if (!parsed.months || typeof parsed.months !== 'object') {
+    throw new Error('La copia no contiene datos de meses');
+  }
+
+  const months: MonthMap = {};
+  Object.keys(parsed.months).forEach(monthKey => {
+    if (!/^\d{4}-\d{2}$/.test(monthKey)) {
+      throw new Error(`Mes no válido en la copia: ${monthKey}`);
+    }
+    months[monthKey] = upgradeMonthData(parsed.months[monthKey], parsed.schemaVersion ?? 0);
+  });
+
+  const settings = parsed.settings ?? { rateTables: [] };
+  return {
+    ...parsed,
+    months,
+    settings: {
+      rateTables: withRateDefaults(settings.rateTables ?? []),
+      holidays: settings.holidays && withHolidayDefaults(settings.holidays),
+      statuses: settings.statuses && withDayStatusDefaults(settings.statuses),
+      netPay: settings.netPay && withNetPayDefaults(settings.netPay),
+      periods: settings.periods && withPeriodDefaults(settings.periods),
+      preferences: settings.preferences && { ...DEFAULT_PREFERENCES, ...settings.preferences },
+      reminders: settings.reminders && { ...DEFAULT_REMINDER_SETTINGS, ...settings.reminders },
+    },
+    records: parsed.records && {
+      payslips: parsed.records.payslips ?? {},
+      profile: { ...EMPTY_PROFILE, ...parsed.records.profile },
+      expenses: parsed.records.expenses ?? [],
+    },
+    receipts: parsed.receipts ?? {},
+  };
+};
+
+export const countDays = (months: MonthMap): number =>
+  Object.values(months).reduce((total, month) => total + Object.keys(month).length, 0);
+
+const getChangedFields = (stored: DayData, incoming: DayData): Array<keyof DayData> => {
+  const fields = new Set([...Object.keys(stored), ...Object.keys(incoming)]) as Set<keyof DayData>;
+  return [...fields].filter(field => JSON.stringify(stored[field]) !== JSON.stringify(incoming[field]));
+};
+
+export const findConflicts = (stored: MonthMap, incoming: MonthMap): DayConflict[] => {
+  const conflicts: DayConflict[] = [];
+
+  Object.keys(incoming).sort().forEach(monthKey => {
+    Object.keys(incoming[monthKey]).sort().forEach(dateStr => {
+      const storedDay = stored[monthKey]?.[dateStr];
+      if (!storedDay) return;
+
+      const incomingDay = incoming[monthKey][dateStr];
+      const changedFields = getChangedFields(storedDay, incomingDay);
+      if (changedFields.length > 0) {
+        conflicts.push({ dateStr, monthKey, stored: storedDay, incoming: incomingDay, changedFields });
+      }
+    });
+  });
+
+  return conflicts;
+};
+
+// Days only present on one side are kept; conflicting days keep the stored
+// version unless their date is listed in `useIncoming`.
+export const mergeMonths = (stored: MonthMap, incoming: MonthMap, useIncoming: Set<string>): MonthMap => {
+  const merged: MonthMap = {};
+
+  Object.keys(incoming).forEach(monthKey => {
+    const month: TimesheetData = { ...stored[monthKey] };
+    Object.keys(incoming[monthKey]).forEach(dateStr => {
+      if (!month[dateStr] || useIncoming.has(dateStr)) {
+        month[dateStr] = incoming[monthKey][dateStr];
+      }
+    });
+    merged[monthKey] = month;
+  });
+
+  return merged;
+};
+
+// Whether the file has period definitions other than the current ones, which
+// a merge then asks about.
+export const hasOtherPeriods = (current: BackupSettings, file: BackupFile): boolean =>
+  Boolean(file.settings.periods) && JSON.stringify(file.settings.periods) !== JSON.stringify(current.periods);
+
+// Adds the file's rate tables whose start date is not already configured.
+export const mergeRateTables = (stored: RateTable[], incoming: RateTable[]): RateTable[] => {
+  const knownDates = new Set(stored.map(table => table.validFrom));
+  return sortRateTables([...stored, ...incoming.filter(table => !knownDates.has(table.validFrom))]);
+};
+
+// Adds the file's local holidays whose date is not already configured; the
+// region is only taken from the file when none is chosen.
+export const mergeHolidaySettings = (stored: HolidaySettings, incoming: HolidaySettings): HolidaySettings => {
+  const knownDates = new Set(stored.localHolidays.map(holiday => holiday.date));
+  return {
+    region: stored.region || incoming.region,
+    localHolidays: [...stored.localHolidays, ...incoming.localHolidays.filter(holiday => !knownDates.has(holiday.date))],
+  };
+};
+
+// Replacing takes every setting the file has. Merging adds the rate tables and
+// holidays the file has on top of the current ones and keeps the rest; like a
+// conflicting day, the period definitions are only taken from the file when
+// `useIncomingPeriods` is set.
+export const restoreSettings = (
+  current: BackupSettings,
+  file: BackupFile,
+  mode: RestoreMode,
+  useIncomingPeriods: boolean,
+): BackupSettings => {
+  const incoming = file.settings;
+  if (mode === 'replace') {
+    return {
+      rateTables: incoming.rateTables.length > 0 ? incoming.rateTables : current.rateTables,
+      holidays: incoming.holidays ?? current.holidays,
+      statuses: incoming.statuses ?? current.statuses,
+      netPay: incoming.netPay ?? current.netPay,
+      periods: incoming.periods ?? current.periods,
+      preferences: incoming.preferences ?? current.preferences,
+      reminders: incoming.reminders ?? current.reminders,
+    };
+  }
+
+  return {
+    ...current,
+    rateTables: mergeRateTables(current.rateTables, incoming.rateTables),
+    holidays: incoming.holidays ? mergeHolidaySettings(current.holidays, incoming.holidays) : current.holidays,
+    periods: useIncomingPeriods && incoming.periods ? incoming.periods : current.periods,
+  };
+};
+
+const getReceiptIds = (expenses: Expense[]): string[] =>
+  expenses.flatMap(expense => (expense.receiptId ? [expense.receiptId] : []));
+
+const pickReceipts = (receipts: ReceiptMap, expenses: Expense[]): ReceiptMap => {
+  const picked: ReceiptMap = {};
+  getReceiptIds(expenses).forEach(receiptId => {
+    if (receipts[receiptId]) picked[receiptId] = receipts[receiptId];
+  });
+  return picked;
+};
+
+// Merging adds the payslips and expenses the current data does not have and
+// only takes the file's profile when none is filled in.
+export const restoreRecords = (current: BackupRecords, file: BackupFile, mode: RestoreMode): RecordsRestore => {
+  const incoming = file.records;
+  if (!incoming) {
+    return { records: current, newReceipts: {}, deletedReceiptIds: [] };
+  }
+
+  if (mode === 'replace') {
+    const keptReceiptIds = getReceiptIds(incoming.expenses);
+    return {
+      records: incoming,
+      newReceipts: pickReceipts(file.receipts ?? {}, incoming.expenses),
+      deletedReceiptIds: getReceiptIds(current.expenses).filter(receiptId => !keptReceiptIds.includes(receiptId)),
+    };
+  }
+
+  const knownExpenseIds = new Set(current.expenses.map(expense => expense.id));
+  const addedExpenses = incoming.expenses.filter(expense => !knownExpenseIds.has(expense.id));
+  const hasProfile = Object.values(current.profile).some(value => value !== '');
+  return {
+    records: {
+      payslips: { ...incoming.payslips, ...current.payslips },
+      profile: hasProfile ? current.profile : incoming.profile,
+      expenses: [...current.expenses, ...addedExpenses],
+    },
+    newReceipts: pickReceipts(file.receipts ?? {}, addedExpenses),
+    deletedReceiptIds: [],
+  };
+};
@@ -0,0 +1,359 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateHours,
+  calculateIntervalsHours,
+  calculateDietaNormal,
+  calculateDietaFinde,
+  calculateNightHours,
+  calculateIntervalsNightHours,
+  calculateNocturnidad,
+  calculateDay,
+  calculateDays,
+  summarizeDays,
+  getDayTotal,
+  CalculationContext,
+} from './calculations';
+import { DEFAULT_RATE_TABLE, RateTable } from './rates';
+import { DEFAULT_HOLIDAY_SETTINGS, HolidaySettings } from './holidays';
+import { DEFAULT_DAY_STATUS_SETTINGS } from './dayStatus';
+import { DEFAULT_PERIOD_DEFINITION } from './fiscal';
+import { DayData, WorkInterval, createEmptyDay } from './types';
+
+const day = (date: string, fields: Partial<DayData> = {}): DayData => ({ ...createEmptyDay(date), ...fields });
+const shift = (startTime: string, endTime: string): WorkInterval => ({ startTime, endTime });
+
+const CONTEXT: CalculationContext = {
+  rateTables: [DEFAULT_RATE_TABLE],
+  holidays: DEFAULT_HOLIDAY_SETTINGS,
+  statuses: DEFAULT_DAY_STATUS_SETTINGS,
+  periods: [DEFAULT_PERIOD_DEFINITION],
+};
+
+const RATES_2025: RateTable = {
+  ...DEFAULT_RATE_TABLE,
+  id: 'rates-2025',
+  validFrom: '2025-01-01',
+  dietaNormal: 16,
+  dietaFinde: 22,
+};
+
+describe('calculateHours', () => {
+  it('returns zero when a time is missing', () => {
+    expect(calculateHours('', '17:00')).toBe(0);
+    expect(calculateHours('08:00', '')).toBe(0);
+  });
+
+  it('measures a shift within the same day', () => {
+    expect(calculateHours('08:00', '17:30')).toBe(9.5);
+  });
+
+  it('rolls a shift that ends before it starts into the next day', () => {
+    expect(calculateHours('22:00', '06:00')).toBe(8);
+    expect(calculateHours('23:45', '00:15')).toBe(0.5);
+  });
+
+  it('treats identical start and end as a full 24 hours', () => {
+    expect(calculateHours('07:00', '07:00')).toBe(24);
+  });
+});
+
+describe('calculateIntervalsHours', () => {
+  it('adds up every interval and ignores the unpaid gaps between them', () => {
+    expect(calculateIntervalsHours([shift('06:00', '10:00'), shift('17:00', '21:30')])).toBe(8.5);
+  });
+
+  it('skips incomplete intervals', () => {
+    expect(calculateIntervalsHours([shift('06:00', '10:00'), shift('17:00', '')])).toBe(4);
+  });
+
+  it('lets a later interval cross midnight', () => {
+    expect(calculateIntervalsHours([shift('07:00', '11:00'), shift('20:00', '02:00')])).toBe(10);
+  });
+});
+
+describe('dietas', () => {
+  it('pays one normal dieta for any worked weekday and two above 12 hours', () => {
+    expect(calculateDietaNormal(0)).toBe(0);
+    expect(calculateDietaNormal(0.5)).toBe(1);
+    expect(calculateDietaNormal(12)).toBe(1);
+    expect(calculateDietaNormal(12.25)).toBe(2);
+  });
+
+  it('requires more than three hours for a weekend dieta', () => {
+    expect(calculateDietaFinde(3)).toBe(0);
+    expect(calculateDietaFinde(3.5)).toBe(1);
+    expect(calculateDietaFinde(13)).toBe(2);
+  });
+});
+
+describe('calculateNightHours', () => {
+  it('counts only the part of the shift inside the night window', () => {
+    expect(calculateNightHours('21:00', '01:59', DEFAULT_RATE_TABLE)).toBeCloseTo(3.983, 3);
+    expect(calculateNightHours('02:00', '03:00', DEFAULT_RATE_TABLE)).toBe(1);
+    expect(calculateNightHours('08:00', '17:00', DEFAULT_RATE_TABLE)).toBe(0);
+  });
+
+  it('catches the night inside a shift that starts and ends in the day', () => {
+    expect(calculateNightHours('23:00', '21:00', DEFAULT_RATE_TABLE)).toBe(7);
+    expect(calculateNightHours('18:00', '10:00', DEFAULT_RATE_TABLE)).toBe(8);
+  });
+
+  it('counts the early-morning window of a shift starting after midnight', () => {
+    expect(calculateNightHours('04:30', '12:00', DEFAULT_RATE_TABLE)).toBe(1.5);
+  });
+
+  it('uses a window that does not cross midnight', () => {
+    const rates: RateTable = { ...DEFAULT_RATE_TABLE, nightStart: '00:00', nightEnd: '05:00' };
+
+    expect(calculateNightHours('22:00', '06:00', rates)).toBe(5);
+  });
+
+  it('adds up the night hours of every interval', () => {
+    expect(calculateIntervalsNightHours([shift('04:00', '08:00'), shift('20:00', '23:30')], DEFAULT_RATE_TABLE)).toBe(3.5);
+  });
+});
+
+describe('calculateNocturnidad', () => {
+  it('pays the low tier below the high-tier threshold and the high tier from it', () => {
+    expect(calculateNocturnidad(0.5, DEFAULT_RATE_TABLE)).toBe(20);
+    expect(calculateNocturnidad(3.99, DEFAULT_RATE_TABLE)).toBe(20);
+    expect(calculateNocturnidad(4, DEFAULT_RATE_TABLE)).toBe(40);
+  });
+
+  it('pays every night hour in hourly mode', () => {
+    const rates: RateTable = { ...DEFAULT_RATE_TABLE, nocturnidadMode: 'hourly', nocturnidadHourly: 3 };
+
+    expect(calculateNocturnidad(2.5, rates)).toBe(7.5);
+  });
+
+  it('pays nothing without night hours', () => {
+    expect(calculateNocturnidad(0, DEFAULT_RATE_TABLE)).toBe(0);
+  });
+});
+
+describe('calculateDay', () => {
+  it('applies the normal dieta on weekdays', () => {
+    const result = calculateDay(day('2024-03-04', { intervals: [shift('08:00', '18:00')] }), CONTEXT);
+
+    expect(result.isWeekend).toBe(false);
+    expect(result.dietaNormal).toBe(1);
+    expect(result.dietaFinde).toBe(0);
+    expect(result.dietaNormalMoney).toBe(15);
+  });
+
+  it('applies the weekend dieta on Saturdays and Sundays', () => {
+    const saturday = calculateDay(day('2024-03-02', { intervals: [shift('08:00', '21:00')] }), CONTEXT);
+    const sunday = calculateDay(day('2024-03-03', { intervals: [shift('08:00', '10:00')] }), CONTEXT);
+
+    expect(saturday.isWeekend).toBe(true);
+    expect(saturday.dietaNormal).toBe(0);
+    expect(saturday.dietaFinde).toBe(2);
+    expect(saturday.dietaFindeMoney).toBe(40);
+    expect(sunday.isWeekend).toBe(true);
+    expect(sunday.dietaFinde).toBe(0);
+  });
+
+  it('keeps the calendar day of a shift that crosses midnight into the weekend', () => {
+    const friday = calculateDay(day('2024-03-01', { intervals: [shift('20:00', '04:00')] }), CONTEXT);
+
+    expect(friday.isWeekend).toBe(false);
+    expect(friday.hours).toBe(8);
+    expect(friday.dietaNormal).toBe(1);
+    expect(friday.nightHours).toBe(6);
+    expect(friday.nocturnidad).toBe(40);
+  });
+
+  it('evaluates dietas on the combined hours of a split shift', () => {
+    const weekday = calculateDay(day('2024-03-04', { intervals: [shift('05:00', '11:00'), shift('15:00', '22:00')] }), CONTEXT);
+    const saturday = calculateDay(day('2024-03-02', { intervals: [shift('08:00', '10:00'), shift('18:00', '20:00')] }), CONTEXT);
+
+    expect(weekday.hours).toBe(13);
+    expect(weekday.dietaNormal).toBe(2);
+    expect(saturday.hours).toBe(4);
+    expect(saturday.dietaFinde).toBe(1);
+  });
+
+  it('pays a split day a single tiered bonus for its combined night hours', () => {
+    const result = calculateDay(day('2024-03-04', { intervals: [shift('04:00', '08:00'), shift('20:00', '23:30')] }), CONTEXT);
+
+    expect(result.nightHours).toBe(3.5);
+    expect(result.nocturnidad).toBe(20);
+  });
+
+  it('uses the rate table in force on the day', () => {
+    const context = { ...CONTEXT, rateTables: [DEFAULT_RATE_TABLE, RATES_2025] };
+
+    expect(calculateDay(day('2024-12-31', { intervals: [shift('08:00', '16:00')] }), context).dietaNormalMoney).toBe(15);
+    expect(calculateDay(day('2025-01-02', { intervals: [shift('08:00', '16:00')] }), context).dietaNormalMoney).toBe(16);
+  });
+
+  it('pays a weekday holiday as dieta finde', () => {
+    const result = calculateDay(day('2024-08-15', { intervals: [shift('08:00', '12:00')] }), CONTEXT);
+
+    expect(result.isWeekend).toBe(false);
+    expect(result.holiday?.name).toBe('Asunción de la Virgen');
+    expect(result.dietaNormal).toBe(0);
+    expect(result.dietaFinde).toBe(1);
+  });
+
+  it('applies the regional and local holidays of the settings', () => {
+    const settings: HolidaySettings = { region: 'MD', localHolidays: [{ date: '2024-05-15', name: 'San Isidro' }] };
+    const regional = calculateDay(day('2024-05-02', { intervals: [shift('08:00', '12:00')] }), { ...CONTEXT, holidays: settings });
+    const local = calculateDay(day('2024-05-15', { intervals: [shift('08:00', '12:00')] }), { ...CONTEXT, holidays: settings });
+    const elsewhere = calculateDay(day('2024-05-02', { intervals: [shift('08:00', '12:00')] }), CONTEXT);
+
+    expect(regional.dietaFinde).toBe(1);
+    expect(local.holiday?.scope).toBe('local');
+    expect(local.dietaFinde).toBe(1);
+    expect(elsewhere.holiday).toBeNull();
+    expect(elsewhere.dietaNormal).toBe(1);
+  });
+
+  it('pays the fixed amount of a status without dietas or nocturnidad', () => {
+    const context: CalculationContext = {
+      ...CONTEXT,
+      statuses: {
+        ...DEFAULT_DAY_STATUS_SETTINGS,
+        pay: { ...DEFAULT_DAY_STATUS_SETTINGS.pay, vacation: { dailyAmount: 50, paysDietas: false } },
+      },
+    };
+    const result = calculateDay(day('2024-03-04', { status: 'vacation', intervals: [shift('20:00', '04:00')] }), context);
+
+    expect(result.dietaNormal).toBe(0);
+    expect(result.nocturnidad).toBe(0);
+    expect(result.statusMoney).toBe(50);
+    expect(getDayTotal(result, { includePropinas: true })).toBe(50);
+  });
+
+  it('keeps dietas for training days', () => {
+    const result = calculateDay(day('2024-03-04', { status: 'training', intervals: [shift('09:00', '14:00')] }), CONTEXT);
+
+    expect(result.dietaNormal).toBe(1);
+  });
+
+  it('prices the manual counters with the day rates', () => {
+    const result = calculateDay(day('2024-03-04', { dietaInt: 2, extra: 1, pernocta: 1, propinas: 7.5 }), CONTEXT);
+
+    expect(result.dietaIntMoney).toBe(50);
+    expect(result.extraMoney).toBe(120);
+    expect(result.pernoctaMoney).toBe(40);
+    expect(getDayTotal(result, { includePropinas: true })).toBe(217.5);
+    expect(getDayTotal(result, { includePropinas: false })).toBe(210);
+  });
+
+  it('takes unpaid breaks off the hours before the dieta thresholds', () => {
+    const intervals = [shift('06:00', '19:00')];
+    const unpaid = calculateDay(day('2024-03-04', {
+      intervals,
+      breaks: [{ startTime: '12:00', endTime: '12:30', minutes: 0, paid: false }, { startTime: '', endTime: '', minutes: 30, paid: false }],
+    }), CONTEXT);
+    const paid = calculateDay(day('2024-03-04', {
+      intervals,
+      breaks: [{ startTime: '', endTime: '', minutes: 60, paid: true }],
+    }), CONTEXT);
+
+    expect(unpaid.hours).toBe(12);
+    expect(unpaid.unpaidBreakHours).toBe(1);
+    expect(unpaid.dietaNormal).toBe(1);
+    expect(paid.hours).toBe(13);
+    expect(paid.breakHours).toBe(1);
+    expect(paid.dietaNormal).toBe(2);
+  });
+
+  it('takes unpaid timed breaks off the night hours', () => {
+    const result = calculateDay(day('2024-03-04', {
+      intervals: [shift('22:00', '06:00')],
+      breaks: [
+        { startTime: '01:00', endTime: '03:00', minutes: 0, paid: false },
+        { startTime: '04:00', endTime: '04:30', minutes: 0, paid: true },
+        { startTime: '', endTime: '', minutes: 15, paid: false },
+      ],
+    }), CONTEXT);
+
+    expect(result.hours).toBe(5.75);
+    expect(result.nightHours).toBe(6);
+  });
+
+  it('pays kilometraje for the kilometres of every trip', () => {
+    const context = { ...CONTEXT, rateTables: [{ ...DEFAULT_RATE_TABLE, kilometraje: 0.2 }] };
+    const trips = [
+      { origin: 'Madrid', destination: 'Toledo', reference: '', odometerStart: 1000, odometerEnd: 1072, km: 72 },
+      { origin: 'Toledo', destination: 'Madrid', reference: '', odometerStart: 0, odometerEnd: 0, km: 73 },
+    ];
+    const result = calculateDay(day('2024-03-04', { trips }), context);
+
+    expect(result.km).toBe(145);
+    expect(result.kilometrajeMoney).toBeCloseTo(29);
+    expect(getDayTotal(result, { includePropinas: false })).toBeCloseTo(29);
+  });
+});
+
+describe('summarizeDays', () => {
+  const data = {
+    '2024-03-01': day('2024-03-01', { intervals: [shift('08:00', '17:00')], propinas: 10 }),
+    '2024-03-02': day('2024-03-02', { intervals: [shift('06:00', '19:00')], dietaInt: 1 }),
+    '2024-03-03': day('2024-03-03', { propinas: 5 }),
+  };
+
+  it('aggregates hours, units and money', () => {
+    const summary = summarizeDays(calculateDays(data, CONTEXT), { includePropinas: true });
+
+    expect(summary.totalHours).toBe(22);
+    expect(summary.daysWorked).toBe(2);
+    expect(summary.dietaNormalUnits).toBe(1);
+    expect(summary.dietaFindeUnits).toBe(2);
+    expect(summary.totalDietas).toBe(55);
+    expect(summary.dietaIntMoney).toBe(25);
+    expect(summary.propinasMoney).toBe(15);
+    expect(summary.totalExtras).toBe(40);
+    expect(summary.totalMoney).toBe(95);
+  });
+
+  it('counts each status separately and ignores empty worked rows', () => {
+    const summary = summarizeDays(calculateDays({
+      ...data,
+      '2024-03-04': day('2024-03-04', { status: 'vacation' }),
+      '2024-03-05': day('2024-03-05', { status: 'vacation' }),
+      '2024-03-06': day('2024-03-06', { status: 'sick' }),
+    }, CONTEXT), { includePropinas: true });
+
+    expect(summary.statusDays.worked).toBe(2);
+    expect(summary.statusDays.vacation).toBe(2);
+    expect(summary.statusDays.sick).toBe(1);
+    expect(summary.statusDays.training).toBe(0);
+  });
+
+  it('pays the worked daily amount only on rows with hours', () => {
+    const context: CalculationContext = {
+      ...CONTEXT,
+      statuses: {
+        ...DEFAULT_DAY_STATUS_SETTINGS,
+        pay: { ...DEFAULT_DAY_STATUS_SETTINGS.pay, worked: { dailyAmount: 10, paysDietas: true } },
+      },
+    };
+    const summary = summarizeDays(calculateDays({
+      '2024-03-04': day('2024-03-04', { intervals: [shift('08:00', '12:00')] }),
+      '2024-03-05': day('2024-03-05'),
+      '2024-03-06': day('2024-03-06'),
+      '2024-03-07': day('2024-03-07'),
+    }, context), { includePropinas: true });
+
+    expect(summary.daysWorked).toBe(1);
+    expect(summary.statusMoney).toBe(10);
+  });
+
+  it('leaves propinas out of the totals when they are hidden', () => {
+    const summary = summarizeDays(calculateDays(data, CONTEXT), { includePropinas: false });
+
+    expect(summary.propinasMoney).toBe(15);
+    expect(summary.totalExtras).toBe(25);
+    expect(summary.totalMoney).toBe(80);
+  });
+
+  it('calculates days by their storage key even if the stored date drifted', () => {
+    const [result] = calculateDays({ '2024-03-02': day('2024-03-01', { intervals: [shift('08:00', '12:00')] }) }, CONTEXT);
+
+    expect(result.dateStr).toBe('2024-03-02');
+    expect(result.isWeekend).toBe(true);
+  });
+});
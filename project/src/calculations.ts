@@ -0,0 +1,267 @@
+import { getDay, parseISO } from 'date-fns';
+import { DayData, TimesheetData, WorkBreak, WorkInterval, getTripsKm, isTimedBreak } from './types';
+import { RateTable, getRatesForDate } from './rates';
+import { Holiday, HolidaySettings, getHoliday } from './holidays';
+import { DayStatusSettings, EMPTY_STATUS_COUNTS, StatusCounts } from './dayStatus';
+import { PeriodDefinition } from './fiscal';
+
+export interface CalculationOptions {
+  includePropinas: boolean;
+}
+
+// The user settings every day calculation depends on.
+export interface CalculationContext {
+  rateTables: RateTable[];
+  holidays: HolidaySettings;
+  statuses: DayStatusSettings;
+  periods: PeriodDefinition[];
+}
+
+export interface DayCalculation extends Omit<DayData, 'date'> {
+  date: Date;
+  dateStr: string;
+  dayOfWeek: number;
+  isWeekend: boolean;
+  holiday: Holiday | null;
+  rates: RateTable;
+  // Working time: the intervals less the unpaid breaks.
+  hours: number;
+  breakHours: number;
+  unpaidBreakHours: number;
+  nightHours: number;
+  dietaNormal: number;
+  dietaFinde: number;
+  nocturnidad: number;
+  dietaNormalMoney: number;
+  dietaFindeMoney: number;
+  dietaIntMoney: number;
+  extraMoney: number;
+  pernoctaMoney: number;
+  km: number;
+  kilometrajeMoney: number;
+  statusMoney: number;
+  // Filled in by applyOvertime, which needs the surrounding week and period.
+  overtimeHours: number;
+  overtimeMoney: number;
+}
+
+export interface PeriodSummary {
+  totalHours: number;
+  nightHours: number;
+  overtimeHours: number;
+  overtimeMoney: number;
+  daysWorked: number;
+  dietaNormalUnits: number;
+  dietaFindeUnits: number;
+  dietaNormalMoney: number;
+  dietaFindeMoney: number;
+  totalDietas: number;
+  nocturnidadMoney: number;
+  dietaIntMoney: number;
+  extraMoney: number;
+  pernoctaMoney: number;
+  totalKm: number;
+  kilometrajeMoney: number;
+  propinasMoney: number;
+  totalExtras: number;
+  statusMoney: number;
+  statusDays: StatusCounts;
+  totalMoney: number;
+}
+
+export const EMPTY_SUMMARY: PeriodSummary = {
+  totalHours: 0,
+  nightHours: 0,
+  overtimeHours: 0,
+  overtimeMoney: 0,
+  daysWorked: 0,
+  dietaNormalUnits: 0,
+  dietaFindeUnits: 0,
+  dietaNormalMoney: 0,
+  dietaFindeMoney: 0,
+  totalDietas: 0,
+  nocturnidadMoney: 0,
+  dietaIntMoney: 0,
+  extraMoney: 0,
+  pernoctaMoney: 0,
+  totalKm: 0,
+  kilometrajeMoney: 0,
+  propinasMoney: 0,
+  totalExtras: 0,
+  statusMoney: 0,
+  statusDays: EMPTY_STATUS_COUNTS,
+  totalMoney: 0,
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const toMinutes = (time: string): number => {
+  const [hour, min] = time.split(':').map(Number);
+  return hour * 60 + min;
+};
+
+// A span whose end is not after its start is taken to finish the next day.
+const toMinuteSpan = (startTime: string, endTime: string): [number, number] => {
+  const start = toMinutes(startTime);
+  let end = toMinutes(endTime);
+
+  if (end <= start) {
+    end += MINUTES_PER_DAY;
+  }
+
+  return [start, end];
+};
+
+export const calculateHours = (startTime: string, endTime: string): number => {
+  if (!startTime || !endTime) return 0;
+
+  const [start, end] = toMinuteSpan(startTime, endTime);
+  return (end - start) / 60;
+};
+
+export const calculateIntervalsHours = (intervals: WorkInterval[]): number =>
+  intervals.reduce((total, interval) => total + calculateHours(interval.startTime, interval.endTime), 0);
+
+export const calculateBreakHours = (breaks: WorkBreak[]): number =>
+  breaks.reduce((total, workBreak) =>
+    total + (isTimedBreak(workBreak) ? calculateHours(workBreak.startTime, workBreak.endTime) : workBreak.minutes / 60), 0);
+
+export const calculateDietaNormal = (hours: number): number => {
+  if (hours === 0) return 0;
+  if (hours > 12) return 2;
+  return 1;
+};
+
+export const calculateDietaFinde = (hours: number): number => {
+  if (hours <= 3) return 0;
+  if (hours > 12) return 2;
+  return 1;
+};
+
+// Hours of the shift that fall inside the night window. A shift spans at most
+// from today into tomorrow, so the windows opening yesterday, today and
+// tomorrow cover every possible overlap.
+export const calculateNightHours = (startTime: string, endTime: string, rates: RateTable): number => {
+  if (!startTime || !endTime || !rates.nightStart || !rates.nightEnd) return 0;
+
+  const [start, end] = toMinuteSpan(startTime, endTime);
+  const [nightStart, nightEnd] = toMinuteSpan(rates.nightStart, rates.nightEnd);
+
+  let minutes = 0;
+  [-MINUTES_PER_DAY, 0, MINUTES_PER_DAY].forEach(offset => {
+    minutes += Math.max(0, Math.min(end, nightEnd + offset) - Math.max(start, nightStart + offset));
+  });
+
+  return minutes / 60;
+};
+
+export const calculateIntervalsNightHours = (intervals: WorkInterval[], rates: RateTable): number =>
+  intervals.reduce((total, interval) => total + calculateNightHours(interval.startTime, interval.endTime, rates), 0);
+
+// In tiered mode a day earns a single bonus however its night hours are split.
+export const calculateNocturnidad = (nightHours: number, rates: RateTable): number => {
+  if (nightHours <= 0) return 0;
+
+  if (rates.nocturnidadMode === 'hourly') {
+    return nightHours * rates.nocturnidadHourly;
+  }
+
+  return nightHours >= rates.nocturnidadHighHours ? rates.nocturnidadHigh : rates.nocturnidadLow;
+};
+
+// An empty row is 'worked' by default, so it only counts as a worked day, and
+// is only paid its status amount, once it has hours.
+const countsAsStatusDay = (status: DayData['status'], hours: number): boolean => status !== 'worked' || hours > 0;
+
+// Holidays are paid like weekends under the agreement. Statuses that do not pay
+// dietas (vacaciones, baja...) still record their hours but earn no dietas or
+// nocturnidad from them; kilometraje is paid on every day with trips. Unpaid
+// breaks come off the hours before the dieta thresholds, and those with times
+// also off the night hours; a break given only in minutes has no place in the
+// night window, so it leaves them alone.
+export const calculateDay = (dayData: DayData, context: CalculationContext): DayCalculation => {
+  const date = parseISO(dayData.date);
+  const dayOfWeek = getDay(date);
+  const isWeekend = dayOfWeek === 0 || dayOfWeek === 6;
+  const holiday = getHoliday(dayData.date, context.holidays) ?? null;
+  const rates = getRatesForDate(context.rateTables, dayData.date);
+  const statusPay = context.statuses.pay[dayData.status];
+
+  const breakHours = calculateBreakHours(dayData.breaks);
+  const unpaidBreakHours = calculateBreakHours(dayData.breaks.filter(workBreak => !workBreak.paid));
+  const hours = Math.max(0, calculateIntervalsHours(dayData.intervals) - unpaidBreakHours);
+  const unpaidTimedBreaks = dayData.breaks.filter(workBreak => !workBreak.paid && isTimedBreak(workBreak));
+  const nightHours = Math.max(0, calculateIntervalsNightHours(dayData.intervals, rates)
+    - calculateIntervalsNightHours(unpaidTimedBreaks, rates));
+  const km = getTripsKm(dayData.trips);
+  const paidAsWeekend = isWeekend || holiday !== null;
+  const dietaNormal = statusPay.paysDietas && !paidAsWeekend ? calculateDietaNormal(hours) : 0;
+  const dietaFinde = statusPay.paysDietas && paidAsWeekend ? calculateDietaFinde(hours) : 0;
+
+  return {
+    ...dayData,
+    date,
+    dateStr: dayData.date,
+    dayOfWeek,
+    isWeekend,
+    holiday,
+    rates,
+    hours,
+    breakHours,
+    unpaidBreakHours,
+    nightHours,
+    dietaNormal,
+    dietaFinde,
+    nocturnidad: statusPay.paysDietas ? calculateNocturnidad(nightHours, rates) : 0,
+    dietaNormalMoney: dietaNormal * rates.dietaNormal,
+    dietaFindeMoney: dietaFinde * rates.dietaFinde,
+    dietaIntMoney: dayData.dietaInt * rates.dietaInt,
+    extraMoney: dayData.extra * rates.extra,
+    pernoctaMoney: dayData.pernocta * rates.pernocta,
+    km,
+    kilometrajeMoney: km * rates.kilometraje,
+    statusMoney: countsAsStatusDay(dayData.status, hours) ? statusPay.dailyAmount : 0,
+    overtimeHours: 0,
+    overtimeMoney: 0,
+  };
+};
+
+export const getDayTotal = (day: DayCalculation, options: CalculationOptions): number =>
+  day.dietaNormalMoney + day.dietaFindeMoney + day.nocturnidad + day.dietaIntMoney + day.extraMoney
+  + day.pernoctaMoney + day.kilometrajeMoney + day.statusMoney + day.overtimeMoney + (options.includePropinas ? day.propinas : 0);
+
+export const summarizeDays = (days: DayCalculation[], options: CalculationOptions): PeriodSummary => {
+  const summary = { ...EMPTY_SUMMARY, statusDays: { ...EMPTY_STATUS_COUNTS } };
+
+  days.forEach(day => {
+    if (day.hours > 0) summary.daysWorked++;
+    if (countsAsStatusDay(day.status, day.hours)) summary.statusDays[day.status]++;
+    summary.statusMoney += day.statusMoney;
+    summary.totalHours += day.hours;
+    summary.nightHours += day.nightHours;
+    summary.overtimeHours += day.overtimeHours;
+    summary.overtimeMoney += day.overtimeMoney;
+    summary.dietaNormalUnits += day.dietaNormal;
+    summary.dietaFindeUnits += day.dietaFinde;
+    summary.dietaNormalMoney += day.dietaNormalMoney;
+    summary.dietaFindeMoney += day.dietaFindeMoney;
+    summary.nocturnidadMoney += day.nocturnidad;
+    summary.dietaIntMoney += day.dietaIntMoney;
+    summary.extraMoney += day.extraMoney;
+    summary.pernoctaMoney += day.pernoctaMoney;
+    summary.totalKm += day.km;
+    summary.kilometrajeMoney += day.kilometrajeMoney;
+    summary.propinasMoney += day.propinas;
+  });
+
+  summary.totalDietas = summary.dietaNormalMoney + summary.dietaFindeMoney;
+  summary.totalExtras = summary.dietaIntMoney + summary.extraMoney + summary.pernoctaMoney
+    + (options.includePropinas ? summary.propinasMoney : 0);
+  summary.totalMoney = summary.totalDietas + summary.nocturnidadMoney + summary.totalExtras + summary.statusMoney
+    + summary.overtimeMoney + summary.kilometrajeMoney;
+
+  return summary;
+};
+
+export const calculateDays = (data: TimesheetData, context: CalculationContext): DayCalculation[] =>
+  Object.keys(data).sort().map(dateStr => calculateDay({ ...data[dateStr], date: dateStr }, context));
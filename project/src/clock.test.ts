@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { clockIn, clockOut, formatElapsed } from './clock';
+import { calculateIntervalsHours } from './calculations';
+import { createEmptyDay } from './types';
+
+describe('clockIn', () => {
+  it('fills the empty interval of a new day', () => {
+    const { day, shift } = clockIn(createEmptyDay('2024-03-04'), new Date(2024, 2, 4, 7, 5));
+
+    expect(day.intervals).toEqual([{ startTime: '07:05', endTime: '' }]);
+    expect(shift).toEqual({ dateStr: '2024-03-04', intervalIndex: 0, startedAt: new Date(2024, 2, 4, 7, 5).getTime() });
+  });
+
+  it('adds a second interval after a finished one', () => {
+    const morning = { ...createEmptyDay('2024-03-04'), intervals: [{ startTime: '06:00', endTime: '10:00' }] };
+    const { day, shift } = clockIn(morning, new Date(2024, 2, 4, 15, 0));
+
+    expect(day.intervals).toEqual([{ startTime: '06:00', endTime: '10:00' }, { startTime: '15:00', endTime: '' }]);
+    expect(shift.intervalIndex).toBe(1);
+  });
+});
+
+describe('clockOut', () => {
+  it('keeps a shift past midnight on the day it started', () => {
+    const started = clockIn(createEmptyDay('2024-03-25'), new Date(2024, 2, 25, 22, 0));
+    const day = clockOut(started.day, started.shift, new Date(2024, 2, 26, 6, 30));
+
+    expect(day.date).toBe('2024-03-25');
+    expect(day.intervals).toEqual([{ startTime: '22:00', endTime: '06:30' }]);
+    expect(calculateIntervalsHours(day.intervals)).toBe(8.5);
+  });
+
+  it('finds the open interval after the intervals were edited', () => {
+    const started = clockIn(createEmptyDay('2024-03-04'), new Date(2024, 2, 4, 15, 0));
+    const edited = {
+      ...started.day,
+      intervals: [{ startTime: '06:00', endTime: '10:00' }, ...started.day.intervals, { startTime: '20:00', endTime: '' }],
+    };
+    const day = clockOut(edited, started.shift, new Date(2024, 2, 4, 18, 0));
+
+    expect(day.intervals).toEqual([
+      { startTime: '06:00', endTime: '10:00' },
+      { startTime: '15:00', endTime: '18:00' },
+      { startTime: '20:00', endTime: '' },
+    ]);
+  });
+
+  it('leaves the day alone when the shift interval was deleted', () => {
+    const started = clockIn(createEmptyDay('2024-03-04'), new Date(2024, 2, 4, 15, 0));
+    const edited = { ...started.day, intervals: [{ startTime: '06:00', endTime: '10:00' }] };
+
+    expect(clockOut(edited, started.shift, new Date(2024, 2, 4, 18, 0))).toEqual(edited);
+  });
+
+  it('drops a shift shorter than a minute', () => {
+    const started = clockIn(createEmptyDay('2024-03-04'), new Date(2024, 2, 4, 7, 5, 10));
+    const day = clockOut(started.day, started.shift, new Date(2024, 2, 4, 7, 5, 40));
+
+    expect(day.intervals).toEqual([{ startTime: '', endTime: '' }]);
+  });
+});
+
+describe('formatElapsed', () => {
+  it('prints hours, minutes and seconds', () => {
+    expect(formatElapsed((9 * 3600 + 5 * 60 + 7) * 1000)).toBe('09:05:07');
+  });
+});
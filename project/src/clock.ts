@@ -0,0 +1,91 @@
+import { format } from 'date-fns';
+import { accountKey } from './accounts';
+import { toDateStr } from './fiscal';
+import { DayData, createEmptyInterval } from './types';
+
+const ACTIVE_SHIFT_STORAGE_KEY = 'app-active-shift';
+
+// A shift clocked in and not yet clocked out. It belongs to the day it
+// started on, like any interval that runs past midnight, so a night shift
+// that crosses the period cutoff stays in the period it began in.
+export interface ActiveShift {
+  dateStr: string;
+  intervalIndex: number;
+  startedAt: number;
+}
+
+export const loadActiveShift = (accountId: string): ActiveShift | null => {
+  const stored = localStorage.getItem(accountKey(ACTIVE_SHIFT_STORAGE_KEY, accountId));
+  if (!stored) return null;
+
+  try {
+    return JSON.parse(stored) as ActiveShift;
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveShift = (accountId: string, shift: ActiveShift | null) => {
+  if (shift) {
+    localStorage.setItem(accountKey(ACTIVE_SHIFT_STORAGE_KEY, accountId), JSON.stringify(shift));
+  } else {
+    localStorage.removeItem(accountKey(ACTIVE_SHIFT_STORAGE_KEY, accountId));
+  }
+};
+
+// Stamps the clock-in time into the day's first empty interval, or a new one.
+export const clockIn = (day: DayData, at: Date): { day: DayData; shift: ActiveShift } => {
+  const emptyIndex = day.intervals.findIndex(interval => !interval.startTime && !interval.endTime);
+  const intervalIndex = emptyIndex >= 0 ? emptyIndex : day.intervals.length;
+  const intervals = emptyIndex >= 0 ? [...day.intervals] : [...day.intervals, createEmptyInterval()];
+  intervals[intervalIndex] = { startTime: format(at, 'HH:mm'), endTime: '' };
+
+  return {
+    day: { ...day, status: 'worked', intervals },
+    shift: { dateStr: toDateStr(at), intervalIndex, startedAt: at.getTime() },
+  };
+};
+
+// The intervals may have been edited since clocking in, so the shift's one is
+// the open interval starting at its clock-in time, wherever it is now. The
+// saved index is only used when its start time was changed by hand.
+const findShiftInterval = (day: DayData, shift: ActiveShift): number => {
+  const startTime = format(shift.startedAt, 'HH:mm');
+  const index = day.intervals.findIndex(interval => interval.startTime === startTime && !interval.endTime);
+  if (index >= 0) return index;
+
+  const saved = day.intervals[shift.intervalIndex];
+  return saved && saved.startTime && !saved.endTime ? shift.intervalIndex : -1;
+};
+
+// Stamps the clock-out time into the shift's interval. An end time earlier
+// than the start is how the rest of the app already reads a shift ending the
+// next day. A shift shorter than a minute would read as 24 h, so it is
+// dropped instead.
+export const clockOut = (day: DayData, shift: ActiveShift, at: Date): DayData => {
+  const intervalIndex = findShiftInterval(day, shift);
+  if (intervalIndex < 0) return day;
+
+  const endTime = format(at, 'HH:mm');
+  if (endTime === day.intervals[intervalIndex].startTime) {
+    const intervals = day.intervals.filter((_, i) => i !== intervalIndex);
+    return { ...day, intervals: intervals.length > 0 ? intervals : [createEmptyInterval()] };
+  }
+
+  return {
+    ...day,
+    intervals: day.intervals.map((current, i) => (i === intervalIndex ? { ...current, endTime } : current)),
+  };
+};
+
+export const MAX_SHIFT_MS = 24 * 60 * 60 * 1000;
+
+export const getShiftElapsedMs = (shift: ActiveShift, now: number): number => Math.max(0, now - shift.startedAt);
+
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(value => String(value).padStart(2, '0')).join(':');
+};
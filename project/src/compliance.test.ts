@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { ComplianceIssue, checkCompliance, getComplianceContextRange } from './compliance';
+import { toDateStr } from './fiscal';
+import { TimesheetData, WorkInterval, createEmptyBreak, createEmptyDay } from './types';
+
+const shift = (startTime: string, endTime: string): WorkInterval => ({ startTime, endTime });
+
+const timesheet = (intervalsByDate: { [date: string]: WorkInterval[] }): TimesheetData => {
+  const data: TimesheetData = {};
+  Object.keys(intervalsByDate).forEach(date => {
+    data[date] = { ...createEmptyDay(date), intervals: intervalsByDate[date] };
+  });
+  return data;
+};
+
+// Stretches of at most 4 h separated by 45-minute breaks, which satisfy the
+// break rule.
+const withBreaks = (startHour: number, hours: number): WorkInterval[] => {
+  const time = (minutes: number) =>
+    `${String(Math.floor(minutes / 60) % 24).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  const intervals: WorkInterval[] = [];
+  let start = startHour * 60;
+  for (let left = hours * 60; left > 0; left -= 240) {
+    const length = Math.min(left, 240);
+    intervals.push(shift(time(start), time(start + length)));
+    start += length + 45;
+  }
+  return intervals;
+};
+
+const check = (data: TimesheetData, start = new Date(2024, 2, 1), end = new Date(2024, 2, 31)) =>
+  checkCompliance(data, start, end);
+
+const rulesOn = (issues: ComplianceIssue[], dateStr: string) =>
+  issues.filter(issue => issue.dateStr === dateStr).map(issue => `${issue.rule}:${issue.severity}`);
+
+describe('daily driving', () => {
+  it('allows two extensions to 10 h a week and flags the third', () => {
+    const issues = check(timesheet({
+      '2024-03-04': withBreaks(6, 9.5),
+      '2024-03-05': withBreaks(6, 9.5),
+      '2024-03-06': withBreaks(6, 9.5),
+    }));
+
+    expect(rulesOn(issues, '2024-03-04')).toEqual(['dailyDriving:warning']);
+    expect(rulesOn(issues, '2024-03-06')).toEqual(['dailyDriving:violation']);
+  });
+
+  it('flags more than 10 h in a day', () => {
+    expect(rulesOn(check(timesheet({ '2024-03-04': withBreaks(6, 11) })), '2024-03-04')).toContain('dailyDriving:violation');
+  });
+});
+
+describe('weekly and two-week driving', () => {
+  it('reports the 56 h limit on the day that crosses it', () => {
+    const issues = check(timesheet({
+      '2024-03-04': withBreaks(6, 9),
+      '2024-03-05': withBreaks(6, 9),
+      '2024-03-06': withBreaks(6, 9),
+      '2024-03-07': withBreaks(6, 9),
+      '2024-03-08': withBreaks(6, 9),
+      '2024-03-09': withBreaks(6, 9),
+      '2024-03-10': withBreaks(6, 3),
+    }));
+
+    expect(issues.filter(issue => issue.rule === 'weeklyDriving').map(issue => issue.dateStr)).toEqual(['2024-03-10']);
+  });
+
+  it('adds the previous week to the two-week total', () => {
+    const issues = check(timesheet({
+      '2024-03-04': withBreaks(6, 9),
+      '2024-03-05': withBreaks(6, 9),
+      '2024-03-06': withBreaks(6, 9),
+      '2024-03-07': withBreaks(6, 9),
+      '2024-03-08': withBreaks(6, 9),
+      '2024-03-11': withBreaks(6, 9),
+      '2024-03-12': withBreaks(6, 9),
+      '2024-03-13': withBreaks(6, 9),
+      '2024-03-14': withBreaks(6, 9),
+      '2024-03-15': withBreaks(6, 9),
+      '2024-03-16': withBreaks(6, 1),
+    }));
+
+    expect(issues.filter(issue => issue.rule === 'fortnightDriving').map(issue => issue.dateStr)).toEqual(['2024-03-16']);
+  });
+});
+
+describe('rests', () => {
+  it('flags rests under 9 h and counts reduced ones', () => {
+    const issues = check(timesheet({
+      '2024-03-04': withBreaks(10, 8),
+      '2024-03-05': [shift('06:00', '10:00'), shift('18:00', '22:00')],
+      '2024-03-06': withBreaks(11, 8),
+      '2024-03-07': withBreaks(5, 4),
+    }));
+
+    // Ends 18:45; 11.25 h until 06:00.
+    expect(rulesOn(issues, '2024-03-04')).toEqual([]);
+    // A 16 h working day leaves only 8 h of its 24 for the rest.
+    expect(rulesOn(issues, '2024-03-05')).toEqual(['dailyRest:violation']);
+    // 19:45 to 05:00.
+    expect(rulesOn(issues, '2024-03-06')).toEqual(['dailyRest:warning']);
+  });
+
+  it('warns about a reduced weekly rest and flags seven days without one', () => {
+    const reduced = check(timesheet({ '2024-03-04': withBreaks(6, 8), '2024-03-05': [], '2024-03-06': withBreaks(6, 8) }));
+    expect(rulesOn(reduced, '2024-03-04')).toEqual(['weeklyRest:warning']);
+
+    const days: { [date: string]: WorkInterval[] } = {};
+    for (let day = 4; day <= 10; day++) {
+      days[`2024-03-${String(day).padStart(2, '0')}`] = withBreaks(6, 6);
+    }
+    expect(rulesOn(check(timesheet(days)), '2024-03-10')).toContain('weeklyRest:violation');
+  });
+});
+
+describe('breaks', () => {
+  it('flags a shift over 4.5 h without a recorded break', () => {
+    expect(rulesOn(check(timesheet({ '2024-03-04': [shift('08:00', '13:00')] })), '2024-03-04')).toEqual(['break:violation']);
+  });
+
+  it('counts recorded breaks inside a shift', () => {
+    const timed = { ...createEmptyBreak(), startTime: '12:00', endTime: '12:45' };
+    const untimed = { ...createEmptyBreak(), minutes: 45 };
+
+    expect(check({ '2024-03-04': { ...createEmptyDay('2024-03-04'), intervals: [shift('08:00', '16:00')], breaks: [timed] } })).toEqual([]);
+    expect(check({ '2024-03-04': { ...createEmptyDay('2024-03-04'), intervals: [shift('08:00', '16:00')], breaks: [untimed] } })).toEqual([]);
+  });
+
+  it('accepts a break split into 15 and 30 minutes', () => {
+    const issues = check(timesheet({
+      '2024-03-04': [shift('08:00', '10:00'), shift('10:15', '12:00'), shift('12:30', '15:30')],
+    }));
+
+    expect(rulesOn(issues, '2024-03-04')).toEqual([]);
+  });
+});
+
+describe('getComplianceContextRange', () => {
+  it('starts a week early and ends a day late', () => {
+    const range = getComplianceContextRange(new Date(2024, 1, 26), new Date(2024, 2, 25));
+
+    expect(toDateStr(range.startDate)).toBe('2024-02-19');
+    expect(toDateStr(range.endDate)).toBe('2024-03-26');
+  });
+});
@@ -0,0 +1,322 @@
+import { addDays, parseISO, startOfWeek, subWeeks } from 'date-fns';
+import { calculateHours } from './calculations';
+import { isDateStrInRange, toDateStr } from './fiscal';
+import { TimesheetData, isTimedBreak } from './types';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+// Limits of Regulation (EC) No 561/2006, in hours unless stated otherwise.
+const DAILY_DRIVING_LIMIT = 9;
+const EXTENDED_DAILY_DRIVING_LIMIT = 10;
+const EXTENSIONS_PER_WEEK = 2;
+const WEEKLY_DRIVING_LIMIT = 56;
+const FORTNIGHT_DRIVING_LIMIT = 90;
+const DAILY_REST = 11;
+const REDUCED_DAILY_REST = 9;
+const REDUCED_DAILY_RESTS_ALLOWED = 3;
+const WEEKLY_REST = 45;
+const REDUCED_WEEKLY_REST = 24;
+const MAX_HOURS_BETWEEN_WEEKLY_RESTS = 6 * 24;
+const DRIVING_BEFORE_BREAK = 4.5;
+const BREAK_MINUTES = 45;
+const SPLIT_BREAK_FIRST_MINUTES = 15;
+const SPLIT_BREAK_SECOND_MINUTES = 30;
+
+export type ComplianceRule = 'dailyDriving' | 'weeklyDriving' | 'fortnightDriving' | 'dailyRest' | 'weeklyRest' | 'break';
+
+// A warning is allowed by the regulation but limited or to be compensated;
+// a violation is not allowed at all.
+export type ComplianceSeverity = 'warning' | 'violation';
+
+export interface ComplianceIssue {
+  dateStr: string;
+  rule: ComplianceRule;
+  severity: ComplianceSeverity;
+  message: string;
+}
+
+export const COMPLIANCE_RULES: Array<{ rule: ComplianceRule; label: string }> = [
+  { rule: 'dailyDriving', label: 'Conducción diaria' },
+  { rule: 'weeklyDriving', label: 'Conducción semanal' },
+  { rule: 'fortnightDriving', label: 'Conducción en dos semanas' },
+  { rule: 'dailyRest', label: 'Descanso diario' },
+  { rule: 'weeklyRest', label: 'Descanso semanal' },
+  { rule: 'break', label: 'Pausas' },
+];
+
+// One recorded shift, in minutes of wall-clock time since 1970-01-01, so a
+// change to or from summer time does not shorten or lengthen a rest.
+interface WorkBlock {
+  dateStr: string;
+  start: number;
+  end: number;
+}
+
+// The blocks of one date, between which the daily rests are taken.
+interface WorkingDay {
+  dateStr: string;
+  start: number;
+  end: number;
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const formatHours = (hours: number): string => `${hours.toFixed(1)} h`;
+
+const getWeekKey = (dateStr: string): string => toDateStr(startOfWeek(parseISO(dateStr), WEEK_OPTIONS));
+
+const toSpan = (dayStart: number, startTime: string, endTime: string): [number, number] => {
+  const start = dayStart + toMinutes(startTime);
+  return [start, start + calculateHours(startTime, endTime) * 60];
+};
+
+// Removes the [start, end) span from the blocks it falls in.
+const cutOut = (blocks: WorkBlock[], [start, end]: [number, number]): WorkBlock[] =>
+  blocks.flatMap(block => {
+    if (end <= block.start || start >= block.end) return [block];
+    return [
+      ...(start > block.start ? [{ ...block, end: start }] : []),
+      ...(end < block.end ? [{ ...block, start: end }] : []),
+    ];
+  });
+
+// Breaks with times split the interval they fall in; one that starts before
+// the first interval is taken to be after midnight of a night shift.
+const toBlocks = (data: TimesheetData): WorkBlock[] =>
+  Object.keys(data)
+    .flatMap(dateStr => {
+      const dayStart = Date.parse(`${dateStr}T00:00:00Z`) / 60000;
+      const blocks = data[dateStr].intervals
+        .filter(interval => interval.startTime && interval.endTime)
+        .map(interval => {
+          const [start, end] = toSpan(dayStart, interval.startTime, interval.endTime);
+          return { dateStr, start, end };
+        });
+      const firstStart = Math.min(...blocks.map(block => block.start));
+
+      return data[dateStr].breaks.filter(isTimedBreak).reduce((remaining, workBreak) => {
+        const [start, end] = toSpan(dayStart, workBreak.startTime, workBreak.endTime);
+        return cutOut(remaining, start < firstStart ? [start + 24 * 60, end + 24 * 60] : [start, end]);
+      }, blocks);
+    })
+    .sort((a, b) => a.start - b.start);
+
+// Minutes of the breaks noted only by their length, which cannot be placed
+// within the day.
+const getUntimedBreakMinutes = (data: TimesheetData): { [dateStr: string]: number } => {
+  const minutes: { [dateStr: string]: number } = {};
+  Object.keys(data).forEach(dateStr => {
+    minutes[dateStr] = data[dateStr].breaks
+      .filter(workBreak => !isTimedBreak(workBreak))
+      .reduce((total, workBreak) => total + workBreak.minutes, 0);
+  });
+  return minutes;
+};
+
+const toWorkingDays = (blocks: WorkBlock[]): WorkingDay[] => {
+  const days: { [dateStr: string]: WorkingDay } = {};
+  blocks.forEach(block => {
+    const day = days[block.dateStr];
+    days[block.dateStr] = day
+      ? { ...day, start: Math.min(day.start, block.start), end: Math.max(day.end, block.end) }
+      : { dateStr: block.dateStr, start: block.start, end: block.end };
+  });
+  return Object.values(days).sort((a, b) => a.start - b.start);
+};
+
+// Only shift times are recorded, so every hour at work outside a break is
+// taken as driving; the real tachograph figures can only be lower.
+const checkDrivingTime = (blocks: WorkBlock[], untimedBreakMinutes: { [dateStr: string]: number }): ComplianceIssue[] => {
+  const issues: ComplianceIssue[] = [];
+  const hoursByDate: { [dateStr: string]: number } = {};
+  const weekTotals: { [weekKey: string]: number } = {};
+  const extensionsByWeek: { [weekKey: string]: number } = {};
+
+  blocks.forEach(block => {
+    hoursByDate[block.dateStr] = (hoursByDate[block.dateStr] ?? 0) + (block.end - block.start) / 60;
+  });
+
+  Object.keys(hoursByDate).sort().forEach(dateStr => {
+    const hours = Math.max(0, hoursByDate[dateStr] - (untimedBreakMinutes[dateStr] ?? 0) / 60);
+    const weekKey = getWeekKey(dateStr);
+
+    if (hours > EXTENDED_DAILY_DRIVING_LIMIT) {
+      issues.push({
+        dateStr,
+        rule: 'dailyDriving',
+        severity: 'violation',
+        message: `${formatHours(hours)} de conducción; el máximo es ${EXTENDED_DAILY_DRIVING_LIMIT} h`,
+      });
+    } else if (hours > DAILY_DRIVING_LIMIT) {
+      const extensions = (extensionsByWeek[weekKey] ?? 0) + 1;
+      extensionsByWeek[weekKey] = extensions;
+      issues.push(extensions > EXTENSIONS_PER_WEEK
+        ? {
+          dateStr,
+          rule: 'dailyDriving',
+          severity: 'violation',
+          message: `Ampliación a ${EXTENDED_DAILY_DRIVING_LIMIT} h número ${extensions} de la semana; solo se permiten ${EXTENSIONS_PER_WEEK}`,
+        }
+        : {
+          dateStr,
+          rule: 'dailyDriving',
+          severity: 'warning',
+          message: `Ampliación a ${EXTENDED_DAILY_DRIVING_LIMIT} h (${extensions} de ${EXTENSIONS_PER_WEEK} esta semana)`,
+        });
+    }
+
+    // Like overtime, a weekly limit is reported on the day that crosses it.
+    const weekBefore = weekTotals[weekKey] ?? 0;
+    weekTotals[weekKey] = weekBefore + hours;
+    if (weekBefore <= WEEKLY_DRIVING_LIMIT && weekBefore + hours > WEEKLY_DRIVING_LIMIT) {
+      issues.push({
+        dateStr,
+        rule: 'weeklyDriving',
+        severity: 'violation',
+        message: `${formatHours(weekBefore + hours)} en la semana; el máximo es ${WEEKLY_DRIVING_LIMIT} h`,
+      });
+    }
+
+    const previousWeekKey = toDateStr(subWeeks(parseISO(weekKey), 1));
+    const fortnightBefore = (weekTotals[previousWeekKey] ?? 0) + weekBefore;
+    if (fortnightBefore <= FORTNIGHT_DRIVING_LIMIT && fortnightBefore + hours > FORTNIGHT_DRIVING_LIMIT) {
+      issues.push({
+        dateStr,
+        rule: 'fortnightDriving',
+        severity: 'violation',
+        message: `${formatHours(fortnightBefore + hours)} en dos semanas seguidas; el máximo es ${FORTNIGHT_DRIVING_LIMIT} h`,
+      });
+    }
+  });
+
+  return issues;
+};
+
+// The daily rest has to fit in the 24 hours from the start of the working
+// day, so a long working day shortens it even when the next one starts late.
+// A stop of REDUCED_WEEKLY_REST hours or more counts as a weekly rest.
+const checkRests = (blocks: WorkBlock[]): ComplianceIssue[] => {
+  const issues: ComplianceIssue[] = [];
+  const days = toWorkingDays(blocks);
+  let weeklyRestEnd = days[0]?.start ?? 0;
+  let weeklyRestOverdue = false;
+  let reducedDailyRests = 0;
+
+  days.forEach((day, index) => {
+    const next = days[index + 1];
+
+    if (!weeklyRestOverdue && (day.end - weeklyRestEnd) / 60 > MAX_HOURS_BETWEEN_WEEKLY_RESTS) {
+      weeklyRestOverdue = true;
+      issues.push({
+        dateStr: day.dateStr,
+        rule: 'weeklyRest',
+        severity: 'violation',
+        message: 'Más de seis periodos de 24 h sin descanso semanal',
+      });
+    }
+
+    const gap = next ? (next.start - day.end) / 60 : Infinity;
+    const rest = Math.max(0, Math.min(gap, 24 - (day.end - day.start) / 60));
+    if (rest < REDUCED_DAILY_REST) {
+      issues.push({
+        dateStr: day.dateStr,
+        rule: 'dailyRest',
+        severity: 'violation',
+        message: `Descanso diario de ${formatHours(rest)} en las 24 h de la jornada; el mínimo es ${REDUCED_DAILY_REST} h`,
+      });
+    } else if (rest < DAILY_REST) {
+      reducedDailyRests += 1;
+      issues.push({
+        dateStr: day.dateStr,
+        rule: 'dailyRest',
+        severity: reducedDailyRests > REDUCED_DAILY_RESTS_ALLOWED ? 'violation' : 'warning',
+        message: `Descanso diario reducido de ${formatHours(rest)} (${reducedDailyRests} de ${REDUCED_DAILY_RESTS_ALLOWED} entre descansos semanales)`,
+      });
+    }
+
+    if (next && gap >= REDUCED_WEEKLY_REST) {
+      if (gap < WEEKLY_REST) {
+        issues.push({
+          dateStr: day.dateStr,
+          rule: 'weeklyRest',
+          severity: 'warning',
+          message: `Descanso semanal reducido de ${formatHours(gap)}; hay que compensar hasta ${WEEKLY_REST} h`,
+        });
+      }
+      weeklyRestEnd = next.start;
+      weeklyRestOverdue = false;
+      reducedDailyRests = 0;
+    }
+  });
+
+  return issues;
+};
+
+// Gaps between recorded shifts and timed breaks are the breaks: 45 minutes in
+// one go, or 15 followed later by 30, after at most 4.5 hours of driving. A
+// day with 45 minutes of untimed breaks is given the benefit of the doubt.
+const checkBreaks = (blocks: WorkBlock[], untimedBreakMinutes: { [dateStr: string]: number }): ComplianceIssue[] => {
+  const issues: ComplianceIssue[] = [];
+  let driving = 0;
+  let splitBreakStarted = false;
+  let previousEnd: number | null = null;
+
+  blocks.forEach(block => {
+    if (previousEnd !== null) {
+      const gap = block.start - previousEnd;
+      if (gap >= BREAK_MINUTES || (splitBreakStarted && gap >= SPLIT_BREAK_SECOND_MINUTES)) {
+        driving = 0;
+        splitBreakStarted = false;
+      } else if (gap >= SPLIT_BREAK_FIRST_MINUTES) {
+        splitBreakStarted = true;
+      }
+    }
+
+    driving += block.end - block.start;
+    previousEnd = block.end;
+
+    if (
+      driving > DRIVING_BEFORE_BREAK * 60
+      && (untimedBreakMinutes[block.dateStr] ?? 0) < BREAK_MINUTES
+      && !issues.some(issue => issue.dateStr === block.dateStr)
+    ) {
+      issues.push({
+        dateStr: block.dateStr,
+        rule: 'break',
+        severity: 'violation',
+        message: `Más de ${DRIVING_BEFORE_BREAK} h seguidas sin una pausa de ${BREAK_MINUTES} min registrada`,
+      });
+    }
+  });
+
+  return issues;
+};
+
+// Likely breaches of the driving and rest rules on the days of the range.
+// `data` should also hold the days of getComplianceContextRange, which the
+// two-week limit and the rests depend on.
+export const checkCompliance = (data: TimesheetData, startDate: Date, endDate: Date): ComplianceIssue[] => {
+  const blocks = toBlocks(data);
+  const untimedBreakMinutes = getUntimedBreakMinutes(data);
+  return [...checkDrivingTime(blocks, untimedBreakMinutes), ...checkRests(blocks), ...checkBreaks(blocks, untimedBreakMinutes)]
+    .filter(issue => isDateStrInRange(issue.dateStr, startDate, endDate))
+    .sort((a, b) => a.dateStr.localeCompare(b.dateStr));
+};
+
+// The week before the range starts a two-week total, and the day after it
+// ends the last daily rest.
+export const getComplianceContextRange = (startDate: Date, endDate: Date) => ({
+  startDate: startOfWeek(subWeeks(startDate, 1), WEEK_OPTIONS),
+  endDate: addDays(endDate, 1),
+});
+
+export const groupIssuesByDate = (issues: ComplianceIssue[]): { [dateStr: string]: ComplianceIssue[] } => {
+  const grouped: { [dateStr: string]: ComplianceIssue[] } = {};
+  issues.forEach(issue => {
+    grouped[issue.dateStr] = [...(grouped[issue.dateStr] ?? []), issue];
+  });
+  return grouped;
+};
@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Download, Upload } from 'lucide-react';
+import { TimesheetStore } from '../storage';
+import { DayData, Trip, WorkBreak, WorkInterval, formatBreaks, formatIntervals, formatTrips } from '../types';
+import { ReceiptImage } from '../expenses';
+import {
+  BackupFile,
+  BackupRecords,
+  BackupSettings,
+  DayConflict,
+  ReceiptMap,
+  RestoreMode,
+  createBackup,
+  parseBackup,
+  countDays,
+  findConflicts,
+  hasOtherPeriods,
+  mergeMonths,
+  restoreRecords,
+  restoreSettings,
+} from '../backup';
+
+interface BackupModalProps {
+  store: TimesheetStore;
+  settings: BackupSettings;
+  records: BackupRecords;
+  // Runs the restore in the app's write queue and reloads what it wrote.
+  onRestore: (restore: () => Promise<BackupSettings>) => Promise<void>;
+  onClose: () => void;
+}
+
+const formatValue = (field: keyof DayData, value: unknown): string => {
+  if (value === undefined || value === '' || value === 0) return '-';
+  if (field === 'trips') return formatTrips(value as Trip[]) || '-';
+  if (field === 'breaks') return formatBreaks(value as WorkBreak[]) || '-';
+  if (Array.isArray(value)) return formatIntervals(value as WorkInterval[]) || '-';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const readReceipts = async (store: TimesheetStore, records: BackupRecords): Promise<ReceiptMap> => {
+  const receipts: ReceiptMap = {};
+  for (const expense of records.expenses) {
+    const image = expense.receiptId ? await store.readReceipt<ReceiptImage>(expense.receiptId) : null;
+    if (expense.receiptId && image) receipts[expense.receiptId] = image;
+  }
+  return receipts;
+};
+
+function BackupModal({ store, settings, records, onRestore, onClose }: BackupModalProps) {
+  const [backupFile, setBackupFile] = useState<BackupFile | null>(null);
+  const [conflicts, setConflicts] = useState<DayConflict[]>([]);
+  const [useIncoming, setUseIncoming] = useState<Set<string>>(new Set());
+  const [useIncomingPeriods, setUseIncomingPeriods] = useState(false);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      const backup = createBackup(await store.readAllMonths(), settings, records, await readReceipts(store, records));
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `Copia_Driver_Timesheet_${format(new Date(), 'dd-MM-yyyy')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      setError('No se pudo crear la copia de seguridad');
+    }
+    setIsWorking(false);
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    setError('');
+    setBackupFile(null);
+    if (!file) return;
+
+    try {
+      const parsed = parseBackup(await file.text());
+      const stored = await store.readAllMonths();
+      const found = findConflicts(stored, parsed.months);
+      setBackupFile(parsed);
+      setConflicts(found);
+      setUseIncoming(new Set());
+      setUseIncomingPeriods(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'No se pudo leer el archivo');
+    }
+  };
+
+  const toggleIncoming = (dateStr: string) => {
+    setUseIncoming(prev => {
+      const next = new Set(prev);
+      if (next.has(dateStr)) {
+        next.delete(dateStr);
+      } else {
+        next.add(dateStr);
+      }
+      return next;
+    });
+  };
+
+  const handleRestore = async () => {
+    if (!backupFile) return;
+
+    if (mode === 'replace' && !confirm('Se borrarán todos los datos actuales y se sustituirán por los de la copia. ¿Continuar?')) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await onRestore(async () => {
+        // Read again here: the months may have been saved since the file was chosen.
+        if (mode === 'replace') {
+          await store.replaceAllMonths(backupFile.months);
+        } else {
+          await store.writeMonths(mergeMonths(await store.readAllMonths(), backupFile.months, useIncoming));
+        }
+
+        // Same order as saving expenses: photos first, so no expense ever
+        // refers to a photo that is not stored yet.
+        const restored = restoreRecords(records, backupFile, mode);
+        if (backupFile.records) {
+          await store.writeReceipts(restored.newReceipts, []);
+          await store.writeEncryptedMeta('payslips', restored.records.payslips);
+          await store.writeEncryptedMeta('profile', restored.records.profile);
+          await store.writeEncryptedMeta('expenses', restored.records.expenses);
+          await store.writeReceipts({}, restored.deletedReceiptIds);
+        }
+        return restoreSettings(settings, backupFile, mode, useIncomingPeriods);
+      });
+    } catch {
+      setError('No se pudo restaurar la copia de seguridad');
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+            Copia de seguridad
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100">Exportar</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              Descarga en un único archivo todos los meses, los gastos con sus tickets, las nóminas, el perfil y los ajustes (tarifas, festivos, estados, salario, periodo de nómina, preferencias y recordatorios). El archivo no está cifrado: guárdalo en un lugar seguro.
+            </p>
+            <button
+              onClick={handleExport}
+              disabled={isWorking}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-400 text-white rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Descargar copia
+            </button>
+          </div>
+
+          <div className="space-y-3 pt-6 border-t border-slate-200 dark:border-slate-700">
+            <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100">Restaurar</h3>
+            <label className="inline-flex px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors items-center gap-2 cursor-pointer">
+              <Upload className="w-4 h-4" />
+              Seleccionar archivo
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => handleFileSelected(e.target.files?.[0])}
+              />
+            </label>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+
+            {backupFile && (
+              <div className="space-y-4">
+                <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 text-sm text-slate-700 dark:text-slate-300">
+                  <p>Creada el {format(new Date(backupFile.exportedAt), "d MMM yyyy 'a las' HH:mm", { locale: es })}</p>
+                  <p>{Object.keys(backupFile.months).length} meses, {countDays(backupFile.months)} días registrados</p>
+                  <p>{conflicts.length} días distintos de los datos actuales</p>
+                  {backupFile.records ? (
+                    <p>
+                      {backupFile.records.expenses.length} gastos, {Object.keys(backupFile.records.payslips).length} nóminas
+                    </p>
+                  ) : (
+                    <p>Copia antigua: sin gastos, nóminas, perfil ni ajustes salvo las tarifas</p>
+                  )}
+                </div>
+
+                <div className="flex gap-4">
+                  <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+                    Combinar con los datos actuales
+                  </label>
+                  <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                    Reemplazar todo
+                  </label>
+                </div>
+
+                <p className="text-sm text-slate-600 dark:text-slate-400">
+                  {mode === 'merge'
+                    ? 'Añade los días, gastos, nóminas, tarifas y festivos que faltan. Los demás ajustes y el perfil actuales se conservan; en los días y el periodo de nómina distintos eliges cuál usar.'
+                    : 'Sustituye los días, gastos, nóminas, perfil y ajustes por los de la copia.'}
+                </p>
+
+                {mode === 'merge' && hasOtherPeriods(settings, backupFile) && (
+                  <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={useIncomingPeriods}
+                      onChange={(e) => setUseIncomingPeriods(e.target.checked)}
+                    />
+                    Usar el periodo de nómina de la copia en lugar del actual
+                  </label>
+                )}
+
+                {mode === 'merge' && conflicts.length > 0 && (
+                  <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-lg">
+                    <table className="w-full text-sm">
+                      <thead className="bg-slate-100 dark:bg-slate-700">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase">Fecha</th>
+                          <th className="px-3 py-2 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase">Campo</th>
+                          <th className="px-3 py-2 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase">Actual</th>
+                          <th className="px-3 py-2 text-left text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase">Copia</th>
+                          <th className="px-3 py-2 text-center text-xs font-semibold text-slate-700 dark:text-slate-300 uppercase">Usar copia</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                        {conflicts.map(conflict => conflict.changedFields.map((field, index) => (
+                          <tr key={`${conflict.dateStr}-${field}`} className="text-slate-800 dark:text-slate-200">
+                            {index === 0 && (
+                              <td rowSpan={conflict.changedFields.length} className="px-3 py-2 whitespace-nowrap align-top">
+                                {format(new Date(`${conflict.dateStr}T00:00`), 'dd/MM/yyyy')}
+                              </td>
+                            )}
+                            <td className="px-3 py-2">{field}</td>
+                            <td className={`px-3 py-2 ${useIncoming.has(conflict.dateStr) ? 'text-slate-400 line-through' : 'font-semibold'}`}>
+                              {formatValue(field, conflict.stored[field])}
+                            </td>
+                            <td className={`px-3 py-2 ${useIncoming.has(conflict.dateStr) ? 'font-semibold' : 'text-slate-400 line-through'}`}>
+                              {formatValue(field, conflict.incoming[field])}
+                            </td>
+                            {index === 0 && (
+                              <td rowSpan={conflict.changedFields.length} className="px-3 py-2 text-center align-top">
+                                <input
+                                  type="checkbox"
+                                  checked={useIncoming.has(conflict.dateStr)}
+                                  onChange={() => toggleIncoming(conflict.dateStr)}
+                                />
+                              </td>
+                            )}
+                          </tr>
+                        )))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <button
+                  onClick={handleRestore}
+                  disabled={isWorking}
+                  className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white rounded-lg transition-colors font-semibold"
+                >
+                  {mode === 'merge' ? 'Combinar copia' : 'Reemplazar con la copia'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BackupModal;
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { WorkBreak, createEmptyBreak, isTimedBreak } from '../types';
+import { calculateBreakHours } from '../calculations';
+
+interface BreaksModalProps {
+  dateStr: string;
+  breaks: WorkBreak[];
+  onSave: (breaks: WorkBreak[]) => void;
+  onClose: () => void;
+}
+
+type BreakEntry = 'times' | 'minutes';
+
+const INPUT_CLASS = 'w-full px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function BreaksModal({ dateStr, breaks, onSave, onClose }: BreaksModalProps) {
+  const [draft, setDraft] = useState<WorkBreak[]>(() => (breaks.length > 0 ? breaks : [createEmptyBreak()]));
+  const [entries, setEntries] = useState<BreakEntry[]>(() =>
+    (breaks.length > 0 ? breaks : [createEmptyBreak()]).map(workBreak => (workBreak.minutes > 0 && !isTimedBreak(workBreak) ? 'minutes' : 'times')));
+
+  const unpaidMinutes = calculateBreakHours(draft.filter(workBreak => !workBreak.paid)) * 60;
+  const paidMinutes = calculateBreakHours(draft.filter(workBreak => workBreak.paid)) * 60;
+
+  const updateBreak = (index: number, changes: Partial<WorkBreak>) => {
+    setDraft(prev => prev.map((workBreak, i) => (i === index ? { ...workBreak, ...changes } : workBreak)));
+  };
+
+  // Only one way of giving the length is kept, so a break never has both.
+  const updateEntry = (index: number, entry: BreakEntry) => {
+    setEntries(prev => prev.map((current, i) => (i === index ? entry : current)));
+    updateBreak(index, entry === 'times' ? { minutes: 0 } : { startTime: '', endTime: '' });
+  };
+
+  const addBreak = () => {
+    setDraft(prev => [...prev, createEmptyBreak()]);
+    setEntries(prev => [...prev, 'times']);
+  };
+
+  const removeBreak = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+    setEntries(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    if (draft.some(workBreak => Boolean(workBreak.startTime) !== Boolean(workBreak.endTime))) {
+      alert('Indica la hora de inicio y de fin de cada pausa');
+      return;
+    }
+
+    onSave(draft.filter(workBreak => isTimedBreak(workBreak) || workBreak.minutes > 0));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 capitalize">
+            Pausas del {format(parseISO(dateStr), "EEEE d 'de' MMMM", { locale: es })}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Las pausas no pagadas se descuentan de las horas antes de calcular las dietas. Con hora de inicio y fin cuentan también para el control de pausas de conducción.
+          </p>
+
+          <div className="space-y-3">
+            {draft.map((workBreak, index) => (
+              <div
+                key={index}
+                className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600"
+              >
+                <div className="flex items-center justify-between gap-4 mb-3">
+                  <select
+                    value={entries[index]}
+                    onChange={(e) => updateEntry(index, e.target.value as BreakEntry)}
+                    className="px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="times">Hora de inicio y fin</option>
+                    <option value="minutes">Solo minutos</option>
+                  </select>
+                  <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={workBreak.paid}
+                      onChange={(e) => updateBreak(index, { paid: e.target.checked })}
+                      className="w-4 h-4"
+                    />
+                    Pagada
+                  </label>
+                  <button
+                    onClick={() => removeBreak(index)}
+                    className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+
+                {entries[index] === 'times' ? (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Inicio</label>
+                      <input
+                        type="time"
+                        value={workBreak.startTime}
+                        onChange={(e) => updateBreak(index, { startTime: e.target.value })}
+                        className={INPUT_CLASS}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Fin</label>
+                      <input
+                        type="time"
+                        value={workBreak.endTime}
+                        onChange={(e) => updateBreak(index, { endTime: e.target.value })}
+                        className={INPUT_CLASS}
+                      />
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Minutos</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="5"
+                      value={workBreak.minutes || ''}
+                      onChange={(e) => updateBreak(index, { minutes: parseInt(e.target.value) || 0 })}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={addBreak}
+            className="w-full px-4 py-2 border-2 border-dashed border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Añadir pausa
+          </button>
+
+          <div className="flex justify-between items-center pt-4 border-t border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300">
+            <span>No pagadas: {Math.round(unpaidMinutes)} min</span>
+            <span>Pagadas: {Math.round(paidMinutes)} min</span>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default BreaksModal;
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import { LoginResult, isValidPin } from '../auth';
+
+interface ChangePinModalProps {
+  onChangePin: (currentPin: string, newPin: string) => Promise<LoginResult>;
+  onClose: () => void;
+}
+
+const PIN_INPUT_CLASS = 'w-full px-4 py-2 text-center text-xl tracking-widest border-2 border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:border-blue-500 focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+function ChangePinModal({ onChangePin, onClose }: ChangePinModalProps) {
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!isValidPin(newPin)) {
+      setError('El nuevo PIN debe tener 4 dígitos');
+      return;
+    }
+    if (newPin !== confirmPin) {
+      setError('Los PIN nuevos no coinciden');
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await onChangePin(currentPin, newPin);
+    setIsSaving(false);
+
+    if (result.ok) {
+      onClose();
+      return;
+    }
+
+    setCurrentPin('');
+    if (result.lockedUntil > Date.now()) {
+      setError(`Demasiados intentos. Bloqueado hasta las ${format(result.lockedUntil, 'HH:mm:ss')}`);
+    } else {
+      setError(`PIN actual incorrecto. Intentos restantes: ${result.attemptsLeft}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-md w-full border border-slate-200 dark:border-slate-700">
+        <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+            Cambiar PIN
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              PIN actual
+            </label>
+            <input
+              type="password"
+              maxLength={4}
+              value={currentPin}
+              onChange={(e) => setCurrentPin(e.target.value.replace(/[^0-9]/g, ''))}
+              className={PIN_INPUT_CLASS}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Nuevo PIN
+            </label>
+            <input
+              type="password"
+              maxLength={4}
+              value={newPin}
+              onChange={(e) => setNewPin(e.target.value.replace(/[^0-9]/g, ''))}
+              className={PIN_INPUT_CLASS}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Repite el nuevo PIN
+            </label>
+            <input
+              type="password"
+              maxLength={4}
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value.replace(/[^0-9]/g, ''))}
+              onKeyPress={(e) => e.key === 'Enter' && handleSubmit()}
+              className={PIN_INPUT_CLASS}
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isSaving || currentPin.length !== 4}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ChangePinModal;
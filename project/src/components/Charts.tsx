@@ -0,0 +1,162 @@
+// Plain SVG charts, so the annual summary needs no chart library or network.
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface ChartProps {
+  labels: string[];
+  series: ChartSeries[];
+  unit: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 56 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const GRID_LINES = 4;
+
+const formatTick = (value: number, unit: string): string =>
+  `${Number.isInteger(value) ? value : value.toFixed(1)}${unit}`;
+
+// Rounds the top of the scale up to 1, 2 or 5 times a power of ten.
+const getScaleMax = (max: number): number => {
+  if (max <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(max));
+  const step = [1, 2, 5, 10].find(factor => factor * magnitude >= max) ?? 10;
+  return step * magnitude;
+};
+
+const toY = (value: number, scaleMax: number): number =>
+  PADDING.top + PLOT_HEIGHT - (value / scaleMax) * PLOT_HEIGHT;
+
+// Long axes only label every few points so the labels never overlap.
+const showLabel = (index: number, count: number): boolean =>
+  index % Math.ceil(count / 12) === 0;
+
+function Axes({ labels, scaleMax, unit }: { labels: string[]; scaleMax: number; unit: string }) {
+  const slotWidth = PLOT_WIDTH / Math.max(labels.length, 1);
+
+  return (
+    <g className="text-[10px] fill-slate-500 dark:fill-slate-400">
+      {Array.from({ length: GRID_LINES + 1 }, (_, i) => {
+        const value = (scaleMax / GRID_LINES) * i;
+        const y = toY(value, scaleMax);
+        return (
+          <g key={i}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y}
+              y2={y}
+              className="stroke-slate-200 dark:stroke-slate-600"
+            />
+            <text x={PADDING.left - 6} y={y + 3} textAnchor="end">{formatTick(value, unit)}</text>
+          </g>
+        );
+      })}
+      {labels.map((label, index) => showLabel(index, labels.length) && (
+        <text
+          key={index}
+          x={PADDING.left + slotWidth * (index + 0.5)}
+          y={HEIGHT - PADDING.bottom + 16}
+          textAnchor="middle"
+        >
+          {label}
+        </text>
+      ))}
+    </g>
+  );
+}
+
+function Legend({ series }: { series: ChartSeries[] }) {
+  return (
+    <div className="flex flex-wrap gap-4 mt-2 text-xs text-slate-600 dark:text-slate-400">
+      {series.map(({ label, color }) => (
+        <span key={label} className="flex items-center gap-1">
+          <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: color }} />
+          {label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Stacks the series of every label into one bar.
+export function BarChart({ labels, series, unit }: ChartProps) {
+  const totals = labels.map((_, index) => series.reduce((total, { values }) => total + Math.max(values[index] ?? 0, 0), 0));
+  const scaleMax = getScaleMax(Math.max(0, ...totals));
+  const slotWidth = PLOT_WIDTH / Math.max(labels.length, 1);
+  const barWidth = slotWidth * 0.6;
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        <Axes labels={labels} scaleMax={scaleMax} unit={unit} />
+        {labels.map((label, index) => {
+          let base = 0;
+          return (
+            <g key={index}>
+              {series.map(({ label: seriesLabel, color, values }) => {
+                const value = Math.max(values[index] ?? 0, 0);
+                const y = toY(base + value, scaleMax);
+                const height = toY(base, scaleMax) - y;
+                base += value;
+                return value > 0 && (
+                  <rect
+                    key={seriesLabel}
+                    x={PADDING.left + slotWidth * index + (slotWidth - barWidth) / 2}
+                    y={y}
+                    width={barWidth}
+                    height={height}
+                    fill={color}
+                  >
+                    <title>{`${label} · ${seriesLabel}: ${value.toFixed(2)}${unit}`}</title>
+                  </rect>
+                );
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      {series.length > 1 && <Legend series={series} />}
+    </div>
+  );
+}
+
+// One line per series; series shorter than the labels simply stop early.
+export function LineChart({ labels, series, unit }: ChartProps) {
+  const scaleMax = getScaleMax(Math.max(0, ...series.flatMap(({ values }) => values)));
+  const slotWidth = PLOT_WIDTH / Math.max(labels.length, 1);
+  const toX = (index: number) => PADDING.left + slotWidth * (index + 0.5);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+        <Axes labels={labels} scaleMax={scaleMax} unit={unit} />
+        {series.map(({ label: seriesLabel, color, values }) => {
+          const points = values.slice(0, labels.length).map((value, index) => ({ x: toX(index), y: toY(value, scaleMax), value }));
+          return (
+            <g key={seriesLabel}>
+              <polyline
+                points={points.map(({ x, y }) => `${x},${y}`).join(' ')}
+                fill="none"
+                stroke={color}
+                strokeWidth={2}
+              />
+              {points.map(({ x, y, value }, index) => (
+                <circle key={index} cx={x} cy={y} r={3} fill={color}>
+                  <title>{`${labels[index]} · ${seriesLabel}: ${value.toFixed(2)}${unit}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <Legend series={series} />
+    </div>
+  );
+}
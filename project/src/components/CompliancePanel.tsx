@@ -0,0 +1,61 @@
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { AlertTriangle, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { COMPLIANCE_RULES, ComplianceIssue } from '../compliance';
+
+interface CompliancePanelProps {
+  issues: ComplianceIssue[];
+}
+
+const getRuleLabel = (issue: ComplianceIssue): string =>
+  COMPLIANCE_RULES.find(({ rule }) => rule === issue.rule)?.label ?? issue.rule;
+
+function CompliancePanel({ issues }: CompliancePanelProps) {
+  const violations = issues.filter(issue => issue.severity === 'violation').length;
+  const warnings = issues.length - violations;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl shadow-md p-6 mb-6 border border-slate-200 dark:border-slate-700">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-xl font-bold text-slate-800 dark:text-slate-100 flex items-center gap-2">
+          {violations > 0 ? (
+            <ShieldAlert className="w-6 h-6 text-red-600 dark:text-red-400" />
+          ) : (
+            <ShieldCheck className="w-6 h-6 text-green-600 dark:text-green-400" />
+          )}
+          Conducción y Descansos
+        </h2>
+        <span className="text-sm text-slate-600 dark:text-slate-400">
+          {violations} infracción(es) · {warnings} aviso(s)
+        </span>
+      </div>
+      <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+        Comprobación orientativa del Reglamento (CE) 561/2006 con las horas de jornada registradas, contadas como conducción. El tacógrafo es lo que vale ante una inspección.
+      </p>
+
+      {issues.length === 0 ? (
+        <p className="text-sm text-green-700 dark:text-green-400">No se han detectado incidencias en este periodo.</p>
+      ) : (
+        <ul className="space-y-2">
+          {issues.map((issue, index) => (
+            <li
+              key={`${issue.dateStr}-${issue.rule}-${index}`}
+              className={`flex items-start gap-3 rounded-lg px-4 py-2 text-sm ${issue.severity === 'violation'
+                ? 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+                : 'bg-amber-50 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'}`}
+            >
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span className="font-medium whitespace-nowrap capitalize">
+                {format(parseISO(issue.dateStr), 'EEE dd/MM', { locale: es })}
+              </span>
+              <span className="font-medium whitespace-nowrap">{getRuleLabel(issue)}</span>
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default CompliancePanel;
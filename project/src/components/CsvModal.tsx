@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react';
+import { X, Download, Upload } from 'lucide-react';
+import { DayData } from '../types';
+import { ColumnMapping, IMPORT_FIELDS, ImportField, parseCsv, guessMapping, buildImportRows } from '../csv';
+
+interface CsvModalProps {
+  onExport: (startDate: string, endDate: string) => Promise<void>;
+  onImport: (days: DayData[], mapping: ColumnMapping) => Promise<void>;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function CsvModal({ onExport, onImport, onClose }: CsvModalProps) {
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [error, setError] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const importResult = useMemo(
+    () => (rows.length > 0 && mapping.date !== undefined ? buildImportRows(rows, mapping, hasHeader) : null),
+    [rows, mapping, hasHeader],
+  );
+
+  const columnNames = useMemo(() => {
+    const width = Math.max(0, ...rows.map(cells => cells.length));
+    return Array.from({ length: width }, (_, index) =>
+      hasHeader && rows[0]?.[index] ? rows[0][index] : `Columna ${index + 1}`,
+    );
+  }, [rows, hasHeader]);
+
+  const handleExport = async () => {
+    if (!startDate || !endDate) {
+      alert('Por favor selecciona ambas fechas');
+      return;
+    }
+    if (startDate > endDate) {
+      alert('La fecha de inicio debe ser anterior a la fecha de fin');
+      return;
+    }
+
+    setIsWorking(true);
+    await onExport(startDate, endDate);
+    setIsWorking(false);
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    setError('');
+    setRows([]);
+    if (!file) return;
+
+    const parsed = parseCsv(await file.text());
+    if (parsed.length === 0) {
+      setError('El archivo está vacío');
+      return;
+    }
+
+    setRows(parsed);
+    setMapping(guessMapping(parsed[0]));
+  };
+
+  const updateMapping = (field: ImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!importResult || importResult.days.length === 0) return;
+
+    if (importResult.errors.length > 0 && !confirm(`${importResult.errors.length} filas tienen errores y no se importarán. ¿Importar el resto?`)) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      await onImport(importResult.days, mapping);
+    } catch {
+      setError('No se pudieron guardar los datos importados');
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+            Hoja de cálculo (CSV)
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100">Exportar</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Fecha Inicio
+                </label>
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={INPUT_CLASS} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                  Fecha Fin
+                </label>
+                <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={INPUT_CLASS} />
+              </div>
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={isWorking}
+              className="px-4 py-2 bg-emerald-600 hover:bg-emerald-700 disabled:bg-slate-400 text-white rounded-lg transition-colors flex items-center gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Descargar CSV
+            </button>
+          </div>
+
+          <div className="space-y-3 pt-6 border-t border-slate-200 dark:border-slate-700">
+            <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100">Importar</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              Los días importados sustituyen a los que ya existan con la misma fecha.
+            </p>
+            <label className="inline-flex px-4 py-2 bg-slate-200 dark:bg-slate-700 hover:bg-slate-300 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 rounded-lg transition-colors items-center gap-2 cursor-pointer">
+              <Upload className="w-4 h-4" />
+              Seleccionar archivo
+              <input
+                type="file"
+                accept=".csv,text/csv,text/plain"
+                className="hidden"
+                onChange={(e) => handleFileSelected(e.target.files?.[0])}
+              />
+            </label>
+
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            )}
+
+            {rows.length > 0 && (
+              <div className="space-y-4">
+                <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                  <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+                  La primera fila contiene los nombres de las columnas
+                </label>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <div key={field}>
+                      <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">
+                        {label}{required ? ' *' : ''}
+                      </label>
+                      <select
+                        value={mapping[field] ?? ''}
+                        onChange={(e) => updateMapping(field, e.target.value)}
+                        className="w-full px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200"
+                      >
+                        <option value="">— Sin asignar —</option>
+                        {columnNames.map((name, index) => (
+                          <option key={index} value={index}>{name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                {importResult && (
+                  <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 text-sm space-y-2">
+                    <p className="text-slate-700 dark:text-slate-300">
+                      {importResult.days.length} días válidos, {importResult.errors.length} errores
+                    </p>
+                    {importResult.errors.length > 0 && (
+                      <ul className="max-h-40 overflow-y-auto text-red-600 dark:text-red-400 space-y-1">
+                        {importResult.errors.map((importError, index) => (
+                          <li key={index}>Fila {importError.line}: {importError.message}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                <button
+                  onClick={handleImport}
+                  disabled={isWorking || !importResult || importResult.days.length === 0}
+                  className="w-full px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 text-white rounded-lg transition-colors font-semibold"
+                >
+                  Importar {importResult ? importResult.days.length : 0} días
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default CsvModal;
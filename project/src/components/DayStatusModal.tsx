@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { DAY_STATUSES, DayStatusSettings, StatusPay } from '../dayStatus';
+import { DayStatus } from '../types';
+
+interface DayStatusModalProps {
+  settings: DayStatusSettings;
+  onSave: (settings: DayStatusSettings) => void;
+  onClose: () => void;
+}
+
+function DayStatusModal({ settings, onSave, onClose }: DayStatusModalProps) {
+  const [draft, setDraft] = useState<DayStatusSettings>(settings);
+
+  const updatePay = (status: DayStatus, changes: Partial<StatusPay>) => {
+    setDraft(prev => ({ ...prev, pay: { ...prev.pay, [status]: { ...prev.pay[status], ...changes } } }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+            Estados del Día
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Cada estado puede sumar un importe fijo por día. Si no cobra dietas, sus horas no generan dietas ni nocturnidad.
+          </p>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 dark:text-slate-400">
+                <th className="py-2 pr-3 font-medium">Estado</th>
+                <th className="py-2 pr-3 font-medium text-right">Importe por día (€)</th>
+                <th className="py-2 font-medium text-center">Cobra dietas</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {DAY_STATUSES.map(({ status, label, badgeClass }) => (
+                <tr key={status}>
+                  <td className="py-2 pr-3">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${badgeClass}`}>{label}</span>
+                  </td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={draft.pay[status].dailyAmount}
+                      onChange={(e) => updatePay(status, { dailyAmount: parseFloat(e.target.value) || 0 })}
+                      className="w-full px-2 py-1 text-sm text-right border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className="py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={draft.pay[status].paysDietas}
+                      onChange={(e) => updatePay(status, { paysDietas: e.target.checked })}
+                      className="w-4 h-4"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Días de vacaciones al año
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={draft.vacationDaysPerYear}
+              onChange={(e) => setDraft(prev => ({ ...prev, vacationDaysPerYear: parseInt(e.target.value) || 0 }))}
+              className="w-32 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default DayStatusModal;
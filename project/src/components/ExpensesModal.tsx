@@ -0,0 +1,266 @@
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Plus, Trash2, Camera } from 'lucide-react';
+import { TimesheetStore } from '../storage';
+import {
+  EXPENSE_CATEGORIES,
+  Expense,
+  ExpenseCategory,
+  PAYMENT_METHODS,
+  PaymentMethod,
+  ReceiptImage,
+  createEmptyExpense,
+  readReceiptImage,
+  summarizeExpenses,
+} from '../expenses';
+
+interface ExpensesModalProps {
+  dateStr: string;
+  expenses: Expense[];
+  store: TimesheetStore;
+  onSave: (expenses: Expense[], newReceipts: { [receiptId: string]: ReceiptImage }, deletedReceiptIds: string[]) => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function ExpensesModal({ dateStr, expenses, store, onSave, onClose }: ExpensesModalProps) {
+  const [draft, setDraft] = useState<Expense[]>(() => (expenses.length > 0 ? expenses : [createEmptyExpense(dateStr)]));
+  const [receipts, setReceipts] = useState<{ [receiptId: string]: ReceiptImage }>({});
+  const [preview, setPreview] = useState<ReceiptImage | null>(null);
+
+  const savedReceiptIds = expenses.flatMap(expense => (expense.receiptId ? [expense.receiptId] : []));
+  const summary = summarizeExpenses(draft);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(savedReceiptIds.map(async receiptId => [receiptId, await store.readReceipt<ReceiptImage>(receiptId)] as const))
+      .then(loaded => {
+        if (cancelled) return;
+        const images: { [receiptId: string]: ReceiptImage } = {};
+        loaded.forEach(([receiptId, image]) => {
+          if (image) images[receiptId] = image;
+        });
+        setReceipts(prev => ({ ...images, ...prev }));
+      })
+      .catch(() => alert('No se pudieron descifrar los tickets'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  const updateExpense = (index: number, changes: Partial<Expense>) => {
+    setDraft(prev => prev.map((expense, i) => (i === index ? { ...expense, ...changes } : expense)));
+  };
+
+  const addExpense = () => {
+    setDraft(prev => [...prev, createEmptyExpense(dateStr)]);
+  };
+
+  const removeExpense = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const attachReceipt = async (index: number, file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const image = await readReceiptImage(file);
+      const receiptId = `receipt-${draft[index].id}-${Date.now()}`;
+      setReceipts(prev => ({ ...prev, [receiptId]: image }));
+      updateExpense(index, { receiptId });
+    } catch {
+      alert('No se pudo leer la imagen del ticket');
+    }
+  };
+
+  const handleSave = () => {
+    const kept = draft.filter(expense => expense.amount > 0 || expense.description || expense.receiptId);
+    if (kept.some(expense => expense.amount <= 0)) {
+      alert('Cada gasto necesita un importe mayor que 0');
+      return;
+    }
+
+    const keptReceiptIds = kept.flatMap(expense => (expense.receiptId ? [expense.receiptId] : []));
+    const newReceipts: { [receiptId: string]: ReceiptImage } = {};
+    keptReceiptIds
+      .filter(receiptId => !savedReceiptIds.includes(receiptId) && receipts[receiptId])
+      .forEach(receiptId => {
+        newReceipts[receiptId] = receipts[receiptId];
+      });
+
+    onSave(kept, newReceipts, savedReceiptIds.filter(receiptId => !keptReceiptIds.includes(receiptId)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 capitalize">
+            Gastos del {format(parseISO(dateStr), "EEEE d 'de' MMMM", { locale: es })}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Peajes, aparcamientos, combustible y comidas pagados por ti. Lo pagado con la tarjeta de empresa no cuenta para el reembolso. Las fotos de los tickets se guardan cifradas solo en este dispositivo.
+          </p>
+
+          <div className="space-y-3">
+            {draft.map((expense, index) => {
+              const receipt = expense.receiptId ? receipts[expense.receiptId] : undefined;
+              return (
+                <div
+                  key={expense.id}
+                  className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600"
+                >
+                  <div className="flex gap-4">
+                    <div className="flex-1 grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Categoría</label>
+                        <select
+                          value={expense.category}
+                          onChange={(e) => updateExpense(index, { category: e.target.value as ExpenseCategory })}
+                          className={INPUT_CLASS}
+                        >
+                          {EXPENSE_CATEGORIES.map(({ category, label }) => (
+                            <option key={category} value={category}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Importe (€)</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={expense.amount || ''}
+                          onChange={(e) => updateExpense(index, { amount: parseFloat(e.target.value) || 0 })}
+                          className={INPUT_CLASS}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Forma de pago</label>
+                        <select
+                          value={expense.paymentMethod}
+                          onChange={(e) => updateExpense(index, { paymentMethod: e.target.value as PaymentMethod })}
+                          className={INPUT_CLASS}
+                        >
+                          {PAYMENT_METHODS.map(({ method, label }) => (
+                            <option key={method} value={method}>{label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Descripción</label>
+                        <input
+                          type="text"
+                          value={expense.description}
+                          placeholder="AP-7 La Jonquera"
+                          onChange={(e) => updateExpense(index, { description: e.target.value })}
+                          className={INPUT_CLASS}
+                        />
+                      </div>
+                    </div>
+
+                    <div className="flex flex-col items-center gap-2 w-24">
+                      {receipt ? (
+                        <button onClick={() => setPreview(receipt)} title="Ver ticket">
+                          <img
+                            src={receipt.dataUrl}
+                            alt="Ticket"
+                            className="w-20 h-20 object-cover rounded border border-slate-300 dark:border-slate-600"
+                          />
+                        </button>
+                      ) : (
+                        <div className="w-20 h-20 flex items-center justify-center rounded border-2 border-dashed border-slate-300 dark:border-slate-600">
+                          <Camera className="w-6 h-6 text-slate-400" />
+                        </div>
+                      )}
+                      <label className="text-xs text-blue-600 dark:text-blue-400 hover:underline cursor-pointer">
+                        {receipt ? 'Cambiar' : 'Foto'}
+                        <input
+                          type="file"
+                          accept="image/*"
+                          capture="environment"
+                          className="hidden"
+                          onChange={(e) => {
+                            attachReceipt(index, e.target.files?.[0]);
+                            e.target.value = '';
+                          }}
+                        />
+                      </label>
+                      {expense.receiptId && (
+                        <button
+                          onClick={() => updateExpense(index, { receiptId: null })}
+                          className="text-xs text-slate-500 hover:text-red-600 dark:hover:text-red-400"
+                        >
+                          Quitar foto
+                        </button>
+                      )}
+                    </div>
+
+                    <button
+                      onClick={() => removeExpense(index)}
+                      className="self-start p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <button
+            onClick={addExpense}
+            className="w-full px-4 py-2 border-2 border-dashed border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Añadir gasto
+          </button>
+
+          <div className="flex justify-between items-center pt-4 border-t border-slate-200 dark:border-slate-600">
+            <span className="text-slate-700 dark:text-slate-300">Total: {summary.total.toFixed(2)}€</span>
+            <span className="font-semibold text-slate-800 dark:text-slate-100">A reembolsar: {summary.reimbursable.toFixed(2)}€</span>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {preview && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-50"
+          onClick={() => setPreview(null)}
+        >
+          <img src={preview.dataUrl} alt="Ticket" className="max-w-full max-h-full rounded-lg" />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ExpensesModal;
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { HolidayScope, HolidaySettings, LocalHoliday, REGIONS, getHolidays } from '../holidays';
+
+interface HolidaysModalProps {
+  settings: HolidaySettings;
+  year: number;
+  onSave: (settings: HolidaySettings) => void;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: { [scope in HolidayScope]: string } = {
+  national: 'Nacional',
+  regional: 'Autonómico',
+  local: 'Local',
+};
+
+function HolidaysModal({ settings, year, onSave, onClose }: HolidaysModalProps) {
+  const [draft, setDraft] = useState<HolidaySettings>(settings);
+  const [newHoliday, setNewHoliday] = useState<LocalHoliday>({ date: '', name: '' });
+
+  const addLocalHoliday = () => {
+    if (!newHoliday.date) {
+      alert('Indica la fecha del festivo');
+      return;
+    }
+    if (draft.localHolidays.some(holiday => holiday.date === newHoliday.date)) {
+      alert('Ya hay un festivo local en esa fecha');
+      return;
+    }
+
+    setDraft(prev => ({
+      ...prev,
+      localHolidays: [...prev.localHolidays, { date: newHoliday.date, name: newHoliday.name.trim() || 'Festivo local' }]
+        .sort((a, b) => a.date.localeCompare(b.date)),
+    }));
+    setNewHoliday({ date: '', name: '' });
+  };
+
+  const removeLocalHoliday = (date: string) => {
+    setDraft(prev => ({ ...prev, localHolidays: prev.localHolidays.filter(holiday => holiday.date !== date) }));
+  };
+
+  const holidays = getHolidays(year, draft);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+            Calendario de Festivos
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Los días festivos se pagan con dieta de fin de semana. Si el calendario oficial de tu comunidad traslada un festivo, añádelo como festivo local.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              Comunidad autónoma
+            </label>
+            <select
+              value={draft.region}
+              onChange={(e) => setDraft(prev => ({ ...prev, region: e.target.value }))}
+              className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">Solo festivos nacionales</option>
+              {REGIONS.map(region => (
+                <option key={region.code} value={region.code}>{region.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Festivos locales</h3>
+            <div className="flex flex-col md:flex-row gap-2 mb-3">
+              <input
+                type="date"
+                value={newHoliday.date}
+                onChange={(e) => setNewHoliday(prev => ({ ...prev, date: e.target.value }))}
+                className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <input
+                type="text"
+                value={newHoliday.name}
+                onChange={(e) => setNewHoliday(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="Nombre (opcional)"
+                className="flex-1 px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <button
+                onClick={addLocalHoliday}
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors flex items-center justify-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Añadir
+              </button>
+            </div>
+            {draft.localHolidays.length === 0 ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">No hay festivos locales.</p>
+            ) : (
+              <ul className="divide-y divide-slate-200 dark:divide-slate-700 border border-slate-200 dark:border-slate-700 rounded-lg">
+                {draft.localHolidays.map(holiday => (
+                  <li key={holiday.date} className="flex items-center justify-between px-3 py-2 text-sm text-slate-800 dark:text-slate-200">
+                    <span>
+                      {format(parseISO(holiday.date), 'dd/MM/yyyy')} · {holiday.name}
+                    </span>
+                    <button
+                      onClick={() => removeLocalHoliday(holiday.date)}
+                      className="p-1 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Festivos de {year}</h3>
+            <table className="w-full text-sm">
+              <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                {holidays.map(holiday => (
+                  <tr key={holiday.date} className="text-slate-800 dark:text-slate-200">
+                    <td className="py-1 pr-3 whitespace-nowrap">
+                      {format(parseISO(holiday.date), 'EEE dd/MM', { locale: es })}
+                    </td>
+                    <td className="py-1 pr-3">{holiday.name}</td>
+                    <td className="py-1 text-right text-xs text-slate-500 dark:text-slate-400">{SCOPE_LABELS[holiday.scope]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => onSave(draft)}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default HolidaysModal;
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { DietaExemptionLimits, NetPaySettings, sortExemptionLimits } from '../netPay';
+
+interface NetPayModalProps {
+  settings: NetPaySettings;
+  onSave: (settings: NetPaySettings) => void;
+  onClose: () => void;
+}
+
+type NumericSetting = 'baseSalary' | 'extraPayments' | 'irpfPercent' | 'socialSecurityPercent';
+type LimitField = Exclude<keyof DietaExemptionLimits, 'validFrom'>;
+
+const SETTING_FIELDS: Array<{ field: NumericSetting; label: string; step: string }> = [
+  { field: 'baseSalary', label: 'Salario base mensual (€)', step: '0.01' },
+  { field: 'extraPayments', label: 'Pagas extra al año', step: '1' },
+  { field: 'irpfPercent', label: 'Retención IRPF (%)', step: '0.01' },
+  { field: 'socialSecurityPercent', label: 'Seguridad Social trabajador (%)', step: '0.01' },
+];
+
+const LIMIT_FIELDS: Array<{ field: LimitField; label: string }> = [
+  { field: 'domestic', label: 'España' },
+  { field: 'domesticOvernight', label: 'España con pernocta' },
+  { field: 'international', label: 'Extranjero' },
+  { field: 'internationalOvernight', label: 'Extranjero con pernocta' },
+  { field: 'perKm', label: 'Kilometraje (€/km)' },
+];
+
+const INPUT_CLASS = 'w-full px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function NetPayModal({ settings, onSave, onClose }: NetPayModalProps) {
+  const [draft, setDraft] = useState<NetPaySettings>(() => ({
+    ...settings,
+    exemptionLimits: sortExemptionLimits(settings.exemptionLimits),
+  }));
+
+  const updateSetting = (field: NumericSetting, value: number) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateLimits = (index: number, field: keyof DietaExemptionLimits, value: string | number) => {
+    setDraft(prev => ({
+      ...prev,
+      exemptionLimits: prev.exemptionLimits.map((limits, i) => (i === index ? { ...limits, [field]: value } : limits)),
+    }));
+  };
+
+  const addLimits = () => {
+    const latest = draft.exemptionLimits[draft.exemptionLimits.length - 1];
+    setDraft(prev => ({
+      ...prev,
+      exemptionLimits: [...prev.exemptionLimits, { ...latest, validFrom: format(new Date(), 'yyyy-MM-dd') }],
+    }));
+  };
+
+  const removeLimits = (index: number) => {
+    setDraft(prev => ({ ...prev, exemptionLimits: prev.exemptionLimits.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = () => {
+    if (draft.exemptionLimits.some(limits => !limits.validFrom)) {
+      alert('Cada fila de límites necesita una fecha de inicio');
+      return;
+    }
+
+    const dates = draft.exemptionLimits.map(limits => limits.validFrom);
+    if (new Set(dates).size !== dates.length) {
+      alert('No puede haber dos límites con la misma fecha de inicio');
+      return;
+    }
+
+    if (draft.irpfPercent < 0 || draft.irpfPercent > 100 || draft.socialSecurityPercent < 0 || draft.socialSecurityPercent > 100) {
+      alert('Los porcentajes deben estar entre 0 y 100');
+      return;
+    }
+
+    onSave({ ...draft, exemptionLimits: sortExemptionLimits(draft.exemptionLimits) });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+            Salario y Retenciones
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Datos para estimar el neto de cada nómina. Las pagas extra se reparten entre los doce meses.
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            {SETTING_FIELDS.map(({ field, label, step }) => (
+              <div key={field}>
+                <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={draft[field]}
+                  onChange={(e) => updateSetting(field, parseFloat(e.target.value) || 0)}
+                  className={INPUT_CLASS}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 mb-2">Dietas y kilometraje exentos</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-400 mb-4">
+              Importes exentos por día (€) y por kilómetro. Lo que los supere tributa como salario. Cada fila se aplica desde su fecha hasta la siguiente.
+            </p>
+
+            <div className="space-y-3">
+              {draft.exemptionLimits.map((limits, index) => (
+                <div
+                  key={index}
+                  className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600"
+                >
+                  <div className="flex items-end justify-between gap-4 mb-3">
+                    <div>
+                      <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Desde</label>
+                      <input
+                        type="date"
+                        value={limits.validFrom}
+                        onChange={(e) => updateLimits(index, 'validFrom', e.target.value)}
+                        className={INPUT_CLASS}
+                      />
+                    </div>
+                    <button
+                      onClick={() => removeLimits(index)}
+                      disabled={draft.exemptionLimits.length === 1}
+                      className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:text-slate-400 disabled:hover:bg-transparent rounded-lg transition-colors"
+                    >
+                      <Trash2 className="w-5 h-5" />
+                    </button>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    {LIMIT_FIELDS.map(({ field, label }) => (
+                      <div key={field}>
+                        <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">{label}</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={limits[field]}
+                          onChange={(e) => updateLimits(index, field, parseFloat(e.target.value) || 0)}
+                          className={INPUT_CLASS}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <button
+              onClick={addLimits}
+              className="mt-3 w-full px-4 py-2 border-2 border-dashed border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Nuevos límites desde una fecha
+            </button>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default NetPayModal;
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X } from 'lucide-react';
+import { FiscalDateRange, toDateStr } from '../fiscal';
+import {
+  BALANCE_LABELS,
+  EMPTY_PAYSLIP_AMOUNTS,
+  PayslipAmounts,
+  PayslipBalance,
+  PayslipMap,
+  PayslipRecord,
+  getPayslipBalance,
+  getTotalDifference,
+  reconcile,
+} from '../payslip';
+
+interface PayslipModalProps {
+  range: FiscalDateRange;
+  expected: PayslipAmounts;
+  payslips: PayslipMap;
+  onSave: (record: PayslipRecord) => void;
+  onClose: () => void;
+}
+
+const BALANCE_CLASSES: { [balance in PayslipBalance]: string } = {
+  ok: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  underpaid: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  overpaid: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+};
+
+const differenceClass = (difference: number): string => {
+  const balance = getPayslipBalance(difference);
+  if (balance === 'underpaid') return 'text-red-600 dark:text-red-400';
+  if (balance === 'overpaid') return 'text-amber-600 dark:text-amber-400';
+  return 'text-slate-500 dark:text-slate-400';
+};
+
+const formatDifference = (difference: number): string =>
+  `${difference > 0 ? '+' : ''}${difference.toFixed(2)}€`;
+
+function PayslipModal({ range, expected, payslips, onSave, onClose }: PayslipModalProps) {
+  const periodKey = toDateStr(range.startDate);
+  const [paid, setPaid] = useState<PayslipAmounts>(() => {
+    const saved = payslips[periodKey];
+    return saved ? { ...EMPTY_PAYSLIP_AMOUNTS, ...saved.paid } : expected;
+  });
+
+  const lines = reconcile(expected, paid);
+  const totalDifference = getTotalDifference(lines);
+  const history = Object.values(payslips).sort((a, b) => b.periodKey.localeCompare(a.periodKey));
+
+  const handleSave = () => {
+    onSave({
+      periodKey,
+      label: range.label,
+      startDate: periodKey,
+      endDate: toDateStr(range.endDate),
+      paid,
+      expected,
+      updatedAt: Date.now(),
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 capitalize">
+            Cotejar Nómina {range.label}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Introduce lo que figura en la nómina para cada concepto. Una diferencia positiva es dinero que la empresa aún te debe.
+          </p>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-600 dark:text-slate-400">
+                <th className="py-2 pr-3 font-medium">Concepto</th>
+                <th className="py-2 pr-3 font-medium text-right">Calculado</th>
+                <th className="py-2 pr-3 font-medium text-right">Pagado en nómina (€)</th>
+                <th className="py-2 font-medium text-right">Diferencia</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+              {lines.map(line => (
+                <tr key={line.concept}>
+                  <td className="py-2 pr-3 text-slate-800 dark:text-slate-200">{line.label}</td>
+                  <td className="py-2 pr-3 text-right text-slate-800 dark:text-slate-200">{line.expected.toFixed(2)}€</td>
+                  <td className="py-2 pr-3">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={paid[line.concept]}
+                      onChange={(e) => setPaid(prev => ({ ...prev, [line.concept]: parseFloat(e.target.value) || 0 }))}
+                      className="w-full px-2 py-1 text-sm text-right border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </td>
+                  <td className={`py-2 text-right font-semibold ${differenceClass(line.difference)}`}>
+                    {formatDifference(line.difference)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="font-bold">
+                <td className="py-2 pr-3 text-slate-800 dark:text-slate-100" colSpan={3}>Total</td>
+                <td className={`py-2 text-right ${differenceClass(totalDifference)}`}>{formatDifference(totalDifference)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+
+          <div>
+            <h3 className="text-xl font-bold text-slate-800 dark:text-slate-100 mb-4">Historial</h3>
+            {history.length === 0 ? (
+              <p className="text-sm text-slate-600 dark:text-slate-400">Todavía no has cotejado ninguna nómina.</p>
+            ) : (
+              <div className="space-y-2">
+                {history.map(record => {
+                  const difference = getTotalDifference(reconcile(record.expected, record.paid));
+                  const balance = getPayslipBalance(difference);
+                  return (
+                    <div
+                      key={record.periodKey}
+                      className="flex items-center justify-between bg-slate-50 dark:bg-slate-700 rounded-lg px-4 py-3 border border-slate-200 dark:border-slate-600"
+                    >
+                      <div>
+                        <p className="font-medium text-slate-800 dark:text-slate-100 capitalize">{record.label}</p>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">
+                          {format(parseISO(record.startDate), 'd MMM', { locale: es })} - {format(parseISO(record.endDate), 'd MMM yyyy', { locale: es })}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className={`font-semibold ${differenceClass(difference)}`}>{formatDifference(difference)}</span>
+                        <span className={`px-2 py-1 rounded text-xs font-medium ${BALANCE_CLASSES[balance]}`}>
+                          {BALANCE_LABELS[balance]}
+                        </span>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PayslipModal;
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { PeriodDefinition, PeriodKind, sortPeriodDefinitions } from '../fiscal';
+
+interface PeriodsModalProps {
+  definitions: PeriodDefinition[];
+  onSave: (definitions: PeriodDefinition[]) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: { [kind in PeriodKind]: string } = {
+  monthly: 'Mensual',
+  fortnightly: 'Quincenal (1-15 y 16-fin de mes)',
+  weekly: 'Semanal',
+};
+
+const WEEKDAYS = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+
+const INPUT_CLASS = 'w-full px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function PeriodsModal({ definitions, onSave, onClose }: PeriodsModalProps) {
+  const [draft, setDraft] = useState<PeriodDefinition[]>(() => sortPeriodDefinitions(definitions));
+
+  const updateDefinition = (id: string, field: keyof PeriodDefinition, value: string | number) => {
+    setDraft(prev => prev.map(definition => (definition.id === id ? { ...definition, [field]: value } : definition)));
+  };
+
+  const addDefinition = () => {
+    const latest = draft[draft.length - 1];
+    setDraft(prev => [
+      ...prev,
+      {
+        ...latest,
+        id: `period-${Date.now()}`,
+        validFrom: format(new Date(), 'yyyy-MM-dd'),
+      },
+    ]);
+  };
+
+  const removeDefinition = (id: string) => {
+    setDraft(prev => prev.filter(definition => definition.id !== id));
+  };
+
+  const handleSave = () => {
+    if (draft.some(definition => !definition.validFrom)) {
+      alert('Cada periodo necesita una fecha de inicio de validez');
+      return;
+    }
+
+    const dates = draft.map(definition => definition.validFrom);
+    if (new Set(dates).size !== dates.length) {
+      alert('No puede haber dos periodos con la misma fecha de inicio');
+      return;
+    }
+
+    if (draft.some(definition => definition.kind === 'monthly' && (definition.startDay < 1 || definition.startDay > 28))) {
+      alert('El día de inicio de un periodo mensual debe estar entre 1 y 28');
+      return;
+    }
+
+    onSave(sortPeriodDefinitions(draft));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+            Periodo de Nómina
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Cada definición se aplica desde su fecha de validez. Los días anteriores siguen en sus periodos de siempre; el periodo en curso al cambiar se corta ese día.
+          </p>
+
+          {draft.map(definition => (
+            <div
+              key={definition.id}
+              className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600"
+            >
+              <div className="flex items-end justify-between gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Válido desde
+                  </label>
+                  <input
+                    type="date"
+                    value={definition.validFrom}
+                    onChange={(e) => updateDefinition(definition.id, 'validFrom', e.target.value)}
+                    className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <button
+                  onClick={() => removeDefinition(definition.id)}
+                  disabled={draft.length === 1}
+                  className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:text-slate-400 disabled:hover:bg-transparent rounded-lg transition-colors"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Tipo</label>
+                  <select
+                    value={definition.kind}
+                    onChange={(e) => updateDefinition(definition.id, 'kind', e.target.value)}
+                    className={INPUT_CLASS}
+                  >
+                    {(Object.keys(KIND_LABELS) as PeriodKind[]).map(kind => (
+                      <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                </div>
+                {definition.kind === 'monthly' && (
+                  <div>
+                    <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Empieza el día (1 = mes natural)</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max="28"
+                      value={definition.startDay}
+                      onChange={(e) => updateDefinition(definition.id, 'startDay', parseInt(e.target.value) || 1)}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                )}
+                {definition.kind === 'weekly' && (
+                  <div>
+                    <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Empieza el</label>
+                    <select
+                      value={definition.weekStartsOn}
+                      onChange={(e) => updateDefinition(definition.id, 'weekStartsOn', parseInt(e.target.value))}
+                      className={INPUT_CLASS}
+                    >
+                      {WEEKDAYS.map((weekday, index) => (
+                        <option key={weekday} value={index}>{weekday}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={addDefinition}
+            className="w-full px-4 py-2 border-2 border-dashed border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Cambiar periodo desde una fecha
+          </button>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default PeriodsModal;
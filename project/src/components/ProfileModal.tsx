@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { DriverProfile, isValidDocumentId, normalizeDocumentId } from '../profile';
+
+interface ProfileModalProps {
+  profile: DriverProfile;
+  onSave: (profile: DriverProfile) => void;
+  onClose: () => void;
+}
+
+const DRIVER_FIELDS: Array<{ field: keyof DriverProfile; label: string; placeholder: string }> = [
+  { field: 'driverName', label: 'Nombre y apellidos', placeholder: '' },
+  { field: 'documentId', label: 'DNI/NIE', placeholder: '12345678Z' },
+  { field: 'employeeNumber', label: 'Nº de empleado', placeholder: '' },
+];
+
+const COMPANY_FIELDS: Array<{ field: keyof DriverProfile; label: string; placeholder: string }> = [
+  { field: 'companyName', label: 'Empresa', placeholder: '' },
+  { field: 'companyCif', label: 'CIF', placeholder: 'B12345678' },
+  { field: 'vehiclePlate', label: 'Matrícula habitual', placeholder: '1234ABC' },
+];
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-700 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function ProfileModal({ profile, onSave, onClose }: ProfileModalProps) {
+  const [draft, setDraft] = useState<DriverProfile>(profile);
+
+  const handleSave = () => {
+    if (draft.documentId && !isValidDocumentId(draft.documentId)) {
+      alert('El DNI/NIE no es válido. Revisa los números y la letra.');
+      return;
+    }
+
+    onSave({
+      ...draft,
+      documentId: normalizeDocumentId(draft.documentId),
+      companyCif: draft.companyCif.toUpperCase().trim(),
+      vehiclePlate: draft.vehiclePlate.toUpperCase().replace(/\s/g, ''),
+    });
+  };
+
+  const renderFields = (fields: typeof DRIVER_FIELDS) => (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {fields.map(({ field, label, placeholder }) => (
+        <div key={field}>
+          <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">{label}</label>
+          <input
+            type="text"
+            value={draft[field]}
+            placeholder={placeholder}
+            onChange={(e) => setDraft(prev => ({ ...prev, [field]: e.target.value }))}
+            className={INPUT_CLASS}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+            Perfil
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Estos datos aparecen en la cabecera y en el nombre de los reportes PDF. Se guardan cifrados con tu PIN.
+          </p>
+
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 mb-3">Conductor</h3>
+            {renderFields(DRIVER_FIELDS)}
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold text-slate-800 dark:text-slate-100 mb-3">Empresa y vehículo</h3>
+            {renderFields(COMPANY_FIELDS)}
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default ProfileModal;
@@ -0,0 +1,244 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { NocturnidadMode, RateTable, sortRateTables } from '../rates';
+
+interface RatesModalProps {
+  rateTables: RateTable[];
+  onSave: (tables: RateTable[]) => void;
+  onClose: () => void;
+}
+
+type NumericRateField = {
+  [K in keyof RateTable]: RateTable[K] extends number ? K : never;
+}[keyof RateTable];
+
+const RATE_FIELDS: Array<{ field: NumericRateField; label: string }> = [
+  { field: 'dietaNormal', label: 'Dieta Normal (€)' },
+  { field: 'dietaFinde', label: 'Dieta Finde (€)' },
+  { field: 'dietaInt', label: 'Dieta Internacional (€)' },
+  { field: 'extra', label: 'Extra (€)' },
+  { field: 'pernocta', label: 'Pernocta (€)' },
+  { field: 'kilometraje', label: 'Kilometraje (€/km)' },
+];
+
+const NOCTURNIDAD_FIELDS: { [mode in NocturnidadMode]: Array<{ field: NumericRateField; label: string }> } = {
+  tiered: [
+    { field: 'nocturnidadLow', label: 'Plus nocturnidad bajo (€)' },
+    { field: 'nocturnidadHigh', label: 'Plus nocturnidad alto (€)' },
+    { field: 'nocturnidadHighHours', label: 'Horas nocturnas para plus alto' },
+  ],
+  hourly: [
+    { field: 'nocturnidadHourly', label: 'Hora nocturna (€/h)' },
+  ],
+};
+
+const OVERTIME_FIELDS: Array<{ field: NumericRateField; label: string }> = [
+  { field: 'weeklyHoursLimit', label: 'Jornada semanal (h)' },
+  { field: 'periodHoursLimit', label: 'Tope por periodo (h)' },
+  { field: 'overtimeHourly', label: 'Hora extra (€/h)' },
+];
+
+const INPUT_CLASS = 'w-full px-2 py-1 text-sm text-right border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function RatesModal({ rateTables, onSave, onClose }: RatesModalProps) {
+  const [draft, setDraft] = useState<RateTable[]>(() => sortRateTables(rateTables));
+
+  const updateTable = (id: string, field: keyof RateTable, value: string | number) => {
+    setDraft(prev => prev.map(table => (table.id === id ? { ...table, [field]: value } : table)));
+  };
+
+  const addTable = () => {
+    const latest = draft[draft.length - 1];
+    setDraft(prev => [
+      ...prev,
+      {
+        ...latest,
+        id: `rates-${Date.now()}`,
+        validFrom: format(new Date(), 'yyyy-MM-dd'),
+      },
+    ]);
+  };
+
+  const removeTable = (id: string) => {
+    setDraft(prev => prev.filter(table => table.id !== id));
+  };
+
+  const handleSave = () => {
+    if (draft.some(table => !table.validFrom)) {
+      alert('Cada tarifa necesita una fecha de inicio de validez');
+      return;
+    }
+
+    const dates = draft.map(table => table.validFrom);
+    if (new Set(dates).size !== dates.length) {
+      alert('No puede haber dos tarifas con la misma fecha de inicio');
+      return;
+    }
+
+    if (draft.some(table => !table.nightStart || !table.nightEnd)) {
+      alert('Cada tarifa necesita el horario nocturno completo');
+      return;
+    }
+
+    onSave(sortRateTables(draft));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">
+            Tarifas del Convenio
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Cada día se calcula con la tarifa vigente en esa fecha. Añade una tarifa nueva cuando cambie el convenio para conservar los importes de los meses anteriores.
+            La nocturnidad se calcula con las horas de cada tramo que caen dentro del horario nocturno.
+            Las horas por encima de la jornada semanal (lunes a domingo) o del tope del periodo se pagan como horas extra; un límite de 0 desactiva ese tope.
+          </p>
+
+          {draft.map(table => (
+            <div
+              key={table.id}
+              className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600"
+            >
+              <div className="flex items-end justify-between gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+                    Válida desde
+                  </label>
+                  <input
+                    type="date"
+                    value={table.validFrom}
+                    onChange={(e) => updateTable(table.id, 'validFrom', e.target.value)}
+                    className="px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <button
+                  onClick={() => removeTable(table.id)}
+                  disabled={draft.length === 1}
+                  className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 disabled:text-slate-400 disabled:hover:bg-transparent rounded-lg transition-colors"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {RATE_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={table[field]}
+                      onChange={(e) => updateTable(table.id, field, parseFloat(e.target.value) || 0)}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mt-4 mb-2">Nocturnidad</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div>
+                  <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Noche desde</label>
+                  <input
+                    type="time"
+                    value={table.nightStart}
+                    onChange={(e) => updateTable(table.id, 'nightStart', e.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Noche hasta</label>
+                  <input
+                    type="time"
+                    value={table.nightEnd}
+                    onChange={(e) => updateTable(table.id, 'nightEnd', e.target.value)}
+                    className={INPUT_CLASS}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Forma de pago</label>
+                  <select
+                    value={table.nocturnidadMode}
+                    onChange={(e) => updateTable(table.id, 'nocturnidadMode', e.target.value)}
+                    className="w-full px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="tiered">Plus fijo por día (bajo / alto)</option>
+                    <option value="hourly">Por hora nocturna trabajada</option>
+                  </select>
+                </div>
+                {NOCTURNIDAD_FIELDS[table.nocturnidadMode].map(({ field, label }) => (
+                  <div key={field}>
+                    <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={table[field]}
+                      onChange={(e) => updateTable(table.id, field, parseFloat(e.target.value) || 0)}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mt-4 mb-2">Horas extra</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {OVERTIME_FIELDS.map(({ field, label }) => (
+                  <div key={field}>
+                    <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={table[field]}
+                      onChange={(e) => updateTable(table.id, field, parseFloat(e.target.value) || 0)}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={addTable}
+            className="w-full px-4 py-2 border-2 border-dashed border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Añadir tarifa
+          </button>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RatesModal;
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { ReminderSettings } from '../reminders';
+
+interface RemindersModalProps {
+  settings: ReminderSettings;
+  onSave: (settings: ReminderSettings) => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const canNotify = 'Notification' in window;
+
+function RemindersModal({ settings, onSave, onClose }: RemindersModalProps) {
+  const [draft, setDraft] = useState<ReminderSettings>(settings);
+
+  const update = (changes: Partial<ReminderSettings>) => {
+    setDraft(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    if ((draft.emptyDayEnabled || draft.periodEndEnabled) && canNotify && Notification.permission !== 'granted') {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        alert('El navegador no permite notificaciones a esta app. Actívalas en los ajustes del sitio.');
+        return;
+      }
+    }
+
+    onSave(draft);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-lg w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100">Recordatorios</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Avisos locales de este dispositivo. Solo saltan mientras la app está abierta y con la sesión iniciada; con la app cerrada o bloqueada no llegan, y aparecen al volver a entrar ese mismo día.
+          </p>
+
+          {!canNotify && (
+            <p className="text-sm text-red-600 dark:text-red-400">Este navegador no admite notificaciones.</p>
+          )}
+
+          <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600 space-y-3">
+            <label className="flex items-center gap-2 font-semibold text-slate-800 dark:text-slate-200">
+              <input
+                type="checkbox"
+                checked={draft.emptyDayEnabled}
+                onChange={(e) => update({ emptyDayEnabled: e.target.checked })}
+                className="w-4 h-4"
+              />
+              Día sin horas
+            </label>
+            <p className="text-sm text-slate-600 dark:text-slate-400">Avisa si hoy es día de trabajo y todavía no tiene horas.</p>
+            <label className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-300">
+              A partir de las
+              <input
+                type="time"
+                value={draft.emptyDayTime}
+                onChange={(e) => update({ emptyDayTime: e.target.value || '22:00' })}
+                className={INPUT_CLASS}
+              />
+            </label>
+          </div>
+
+          <div className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600 space-y-3">
+            <label className="flex items-center gap-2 font-semibold text-slate-800 dark:text-slate-200">
+              <input
+                type="checkbox"
+                checked={draft.periodEndEnabled}
+                onChange={(e) => update({ periodEndEnabled: e.target.checked })}
+                className="w-4 h-4"
+              />
+              Cierre del periodo
+            </label>
+            <p className="text-sm text-slate-600 dark:text-slate-400">Avisa el último día del periodo de nómina (el 25 con el periodo por defecto) para revisarlo antes de que se cierre.</p>
+            <label className="flex items-center gap-3 text-sm text-slate-700 dark:text-slate-300">
+              A partir de las
+              <input
+                type="time"
+                value={draft.periodEndTime}
+                onChange={(e) => update({ periodEndTime: e.target.value || '09:00' })}
+                className={INPUT_CLASS}
+              />
+            </label>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default RemindersModal;
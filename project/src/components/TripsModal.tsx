@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { X, Plus, Trash2 } from 'lucide-react';
+import { Trip, createEmptyTrip, getTripsKm } from '../types';
+
+interface TripsModalProps {
+  dateStr: string;
+  trips: Trip[];
+  kilometrajeRate: number;
+  onSave: (trips: Trip[]) => void;
+  onClose: () => void;
+}
+
+type TextField = 'origin' | 'destination' | 'reference';
+type OdometerField = 'odometerStart' | 'odometerEnd';
+
+const TEXT_FIELDS: Array<{ field: TextField; label: string; placeholder: string }> = [
+  { field: 'origin', label: 'Origen', placeholder: 'Madrid' },
+  { field: 'destination', label: 'Destino', placeholder: 'Valencia' },
+  { field: 'reference', label: 'Referencia', placeholder: 'Albarán, pedido...' },
+];
+
+const ODOMETER_FIELDS: Array<{ field: OdometerField; label: string }> = [
+  { field: 'odometerStart', label: 'Km inicial' },
+  { field: 'odometerEnd', label: 'Km final' },
+];
+
+const INPUT_CLASS = 'w-full px-2 py-1 text-sm border border-slate-300 dark:border-slate-600 rounded bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// With both odometer readings the distance follows from them; otherwise the
+// km typed in by hand are kept.
+const withOdometerKm = (trip: Trip): Trip =>
+  trip.odometerStart > 0 && trip.odometerEnd > trip.odometerStart
+    ? { ...trip, km: trip.odometerEnd - trip.odometerStart }
+    : trip;
+
+function TripsModal({ dateStr, trips, kilometrajeRate, onSave, onClose }: TripsModalProps) {
+  const [draft, setDraft] = useState<Trip[]>(() => (trips.length > 0 ? trips : [createEmptyTrip()]));
+
+  const totalKm = getTripsKm(draft);
+
+  const updateTrip = (index: number, changes: Partial<Trip>) => {
+    setDraft(prev => prev.map((trip, i) => (i === index ? { ...trip, ...changes } : trip)));
+  };
+
+  const updateOdometer = (index: number, field: OdometerField, value: number) => {
+    setDraft(prev => prev.map((trip, i) => (i === index ? withOdometerKm({ ...trip, [field]: value }) : trip)));
+  };
+
+  const addTrip = () => {
+    const last = draft[draft.length - 1];
+    setDraft(prev => [...prev, {
+      ...createEmptyTrip(),
+      origin: last?.destination ?? '',
+      odometerStart: last?.odometerEnd ?? 0,
+    }]);
+  };
+
+  const removeTrip = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = () => {
+    if (draft.some(trip => trip.odometerEnd > 0 && trip.odometerEnd < trip.odometerStart)) {
+      alert('El kilometraje final no puede ser menor que el inicial');
+      return;
+    }
+
+    onSave(draft.filter(trip => trip.origin || trip.destination || trip.reference || trip.km > 0));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-slate-800 rounded-xl shadow-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto border border-slate-200 dark:border-slate-700">
+        <div className="sticky top-0 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700 p-6 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-slate-100 capitalize">
+            Viajes del {format(parseISO(dateStr), "EEEE d 'de' MMMM", { locale: es })}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+          >
+            <X className="w-6 h-6 text-slate-800 dark:text-slate-200" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-slate-600 dark:text-slate-400">
+            Con el kilometraje inicial y final los kilómetros se calculan solos; si no, escríbelos directamente.
+          </p>
+
+          <div className="space-y-3">
+            {draft.map((trip, index) => (
+              <div
+                key={index}
+                className="bg-slate-50 dark:bg-slate-700 rounded-lg p-4 border border-slate-200 dark:border-slate-600"
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <span className="font-medium text-slate-800 dark:text-slate-100">Viaje {index + 1}</span>
+                  <button
+                    onClick={() => removeTrip(index)}
+                    className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/30 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-3 mb-3">
+                  {TEXT_FIELDS.map(({ field, label, placeholder }) => (
+                    <div key={field}>
+                      <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">{label}</label>
+                      <input
+                        type="text"
+                        value={trip[field]}
+                        placeholder={placeholder}
+                        onChange={(e) => updateTrip(index, { [field]: e.target.value })}
+                        className={INPUT_CLASS}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                <div className="grid grid-cols-3 gap-3">
+                  {ODOMETER_FIELDS.map(({ field, label }) => (
+                    <div key={field}>
+                      <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">{label}</label>
+                      <input
+                        type="number"
+                        min="0"
+                        value={trip[field] || ''}
+                        onChange={(e) => updateOdometer(index, field, parseInt(e.target.value) || 0)}
+                        className={INPUT_CLASS}
+                      />
+                    </div>
+                  ))}
+                  <div>
+                    <label className="block text-xs text-slate-600 dark:text-slate-400 mb-1">Km recorridos</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={trip.km || ''}
+                      onChange={(e) => updateTrip(index, { km: parseFloat(e.target.value) || 0 })}
+                      className={INPUT_CLASS}
+                    />
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={addTrip}
+            className="w-full px-4 py-2 border-2 border-dashed border-slate-300 dark:border-slate-600 text-slate-700 dark:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Añadir viaje
+          </button>
+
+          <div className="flex justify-between items-center pt-4 border-t border-slate-200 dark:border-slate-600">
+            <span className="text-slate-700 dark:text-slate-300">Total: {totalKm.toFixed(1)} km</span>
+            <span className="font-semibold text-slate-800 dark:text-slate-100">{(totalKm * kilometrajeRate).toFixed(2)}€</span>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-slate-300 dark:border-slate-600 text-slate-800 dark:text-slate-200 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors font-semibold"
+            >
+              Guardar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default TripsModal;
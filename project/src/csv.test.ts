@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { buildImportRows, guessMapping, mergeImportedDays, parseCsvBreaks } from './csv';
+import { createEmptyDay, formatBreaks } from './types';
+
+const TRIP = { origin: 'Madrid', destination: 'Toledo', reference: '', odometerStart: 0, odometerEnd: 0, km: 72 };
+
+describe('mergeImportedDays', () => {
+  it('keeps the stored fields the file does not map', () => {
+    const rows = [['Fecha', 'Inicio', 'Fin'], ['04/03/2024', '08:00', '16:00']];
+    const mapping = guessMapping(rows[0]);
+    const { days } = buildImportRows(rows, mapping, true);
+    const stored = { '2024-03-04': { ...createEmptyDay('2024-03-04'), trips: [TRIP], propinas: 5 } };
+
+    const merged = mergeImportedDays(stored, { '2024-03-04': days[0] }, mapping);
+
+    expect(merged['2024-03-04'].intervals).toEqual([{ startTime: '08:00', endTime: '16:00' }]);
+    expect(merged['2024-03-04'].trips).toEqual([TRIP]);
+    expect(merged['2024-03-04'].propinas).toBe(5);
+  });
+});
+
+describe('parseCsvBreaks', () => {
+  it('reads back the exported breaks', () => {
+    const breaks = [
+      { startTime: '10:00', endTime: '10:45', minutes: 0, paid: false },
+      { startTime: '', endTime: '', minutes: 30, paid: true },
+    ];
+
+    expect(parseCsvBreaks(formatBreaks(breaks))).toEqual(breaks);
+    expect(parseCsvBreaks('-')).toEqual([]);
+    expect(parseCsvBreaks('media hora')).toBeNull();
+  });
+});
@@ -0,0 +1,297 @@
+import { DayData, DayStatus, MonthMap, TimesheetData, WorkBreak, createEmptyDay } from './types';
+import { DAY_STATUSES } from './dayStatus';
+
+export const CSV_DELIMITER = ';';
+
+export type ImportField = 'date' | 'status' | 'startTime' | 'endTime' | 'breaks' | 'dietaInt' | 'extra' | 'pernocta' | 'propinas';
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required: boolean; aliases: string[] }> = [
+  { field: 'date', label: 'Fecha', required: true, aliases: ['fecha', 'date', 'dia', 'día'] },
+  { field: 'status', label: 'Estado', required: false, aliases: ['estado', 'status', 'tipo'] },
+  { field: 'startTime', label: 'Inicio', required: false, aliases: ['inicio', 'entrada', 'start', 'hora inicio'] },
+  { field: 'endTime', label: 'Fin', required: false, aliases: ['fin', 'salida', 'end', 'hora fin'] },
+  { field: 'breaks', label: 'Pausas', required: false, aliases: ['pausas', 'descansos', 'breaks'] },
+  { field: 'dietaInt', label: 'Dieta Int', required: false, aliases: ['d. int', 'dieta int', 'dieta internacional', 'internacional'] },
+  { field: 'extra', label: 'Extra', required: false, aliases: ['extra', 'extras'] },
+  { field: 'pernocta', label: 'Pernocta', required: false, aliases: ['pernocta', 'pernoctas'] },
+  { field: 'propinas', label: 'Propinas', required: false, aliases: ['propinas', 'propina', 'tips'] },
+];
+
+export type ColumnMapping = { [field in ImportField]?: number };
+
+// The DayData fields each import column fills in.
+const IMPORT_FIELD_TARGETS: { [field in ImportField]: Array<keyof DayData> } = {
+  date: ['date'],
+  status: ['status'],
+  startTime: ['intervals'],
+  endTime: ['intervals'],
+  breaks: ['breaks'],
+  dietaInt: ['dietaInt'],
+  extra: ['extra'],
+  pernocta: ['pernocta'],
+  propinas: ['propinas'],
+};
+
+export interface ImportError {
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  days: DayData[];
+  errors: ImportError[];
+}
+
+const escapeCell = (value: string): string =>
+  /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Semicolons and a BOM so Excel in Spanish locale opens the file in columns.
+export const toCsv = (rows: Array<Array<string | number>>): string =>
+  '\uFEFF' + rows.map(row => row.map(cell => escapeCell(String(cell))).join(CSV_DELIMITER)).join('\r\n');
+
+export const formatCsvNumber = (value: number): string => value.toFixed(2).replace('.', ',');
+
+const detectDelimiter = (firstLine: string): string => {
+  const candidates = [';', ',', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best,
+  );
+};
+
+export const parseCsv = (text: string): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.split(/\r?\n/)[0] || '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value !== ''));
+};
+
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const index = header.findIndex(name => aliases.includes(name.trim().toLowerCase()));
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+};
+
+// Accepts dd/MM/yyyy, d/M/yy (also with - or .) and ISO yyyy-MM-dd.
+export const parseCsvDate = (value: string): string | null => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (local) {
+    [day, month, year] = [Number(local[1]), Number(local[2]), Number(local[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export const parseCsvTime = (value: string): string | null => {
+  if (value === '' || value === '-') return '';
+
+  const match = value.match(/^(\d{1,2})[:.](\d{2})(?::\d{2})?$/);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+};
+
+// Understands both "1.234,56" and "1234.56"; empty cells and "-" count as zero.
+export const parseCsvNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[€\s]/g, '');
+  if (cleaned === '' || cleaned === '-') return 0;
+
+  const normalized = cleaned.includes(',')
+    ? cleaned.replace(/\./g, '').replace(',', '.')
+    : cleaned;
+  if (!/^\d+(\.\d+)?$/.test(normalized)) return null;
+  return Number(normalized);
+};
+
+// Reads the breaks as exported, e.g. "10:00-10:45, 30 min (pagada)".
+export const parseCsvBreaks = (value: string): WorkBreak[] | null => {
+  if (value === '' || value === '-') return [];
+
+  const breaks: WorkBreak[] = [];
+  for (const item of value.split(',').map(part => part.trim())) {
+    const paid = /\(pagada\)$/i.test(item);
+    const text = item.replace(/\(pagada\)$/i, '').trim();
+    const timed = text.match(/^(\S+)\s*-\s*(\S+)$/);
+    const minutes = text.match(/^(\d+)\s*min$/i);
+
+    if (timed) {
+      const startTime = parseCsvTime(timed[1]);
+      const endTime = parseCsvTime(timed[2]);
+      if (!startTime || !endTime) return null;
+      breaks.push({ startTime, endTime, minutes: 0, paid });
+    } else if (minutes) {
+      breaks.push({ startTime: '', endTime: '', minutes: Number(minutes[1]), paid });
+    } else {
+      return null;
+    }
+  }
+  return breaks;
+};
+
+// Accepts the status labels shown in the app (case and accents ignored).
+export const parseCsvStatus = (value: string): DayStatus | null => {
+  if (value === '') return 'worked';
+
+  const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+  const match = DAY_STATUSES.find(({ status, label }) => [status, label].map(normalize).includes(normalize(value)));
+  return match ? match.status : null;
+};
+
+export const buildImportRows = (rows: string[][], mapping: ColumnMapping, hasHeader: boolean): ImportResult => {
+  const days: DayData[] = [];
+  const errors: ImportError[] = [];
+  const seenDates = new Set<string>();
+
+  rows.slice(hasHeader ? 1 : 0).forEach((cells, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const cellFor = (field: ImportField) => {
+      const column = mapping[field];
+      return column === undefined ? '' : (cells[column] ?? '');
+    };
+
+    const dateStr = parseCsvDate(cellFor('date'));
+    if (!dateStr) {
+      errors.push({ line, message: `Fecha no válida: "${cellFor('date')}"` });
+      return;
+    }
+    if (seenDates.has(dateStr)) {
+      errors.push({ line, message: `Fecha repetida: ${dateStr}` });
+      return;
+    }
+
+    const day = createEmptyDay(dateStr);
+    const rowErrors: string[] = [];
+
+    const status = parseCsvStatus(cellFor('status'));
+    if (status === null) {
+      rowErrors.push(`Estado no válido: "${cellFor('status')}"`);
+    } else {
+      day.status = status;
+    }
+
+    // Split shifts are exported as "06:00 / 17:00" in Inicio and "10:00 / 21:00" in Fin.
+    const startTimes = cellFor('startTime').split('/');
+    const endTimes = cellFor('endTime').split('/');
+    if (startTimes.length !== endTimes.length) {
+      rowErrors.push(`Inicio y Fin tienen distinto número de tramos: "${cellFor('startTime')}" / "${cellFor('endTime')}"`);
+    } else {
+      day.intervals = startTimes.map((startCell, i) => {
+        const startTime = parseCsvTime(startCell.trim());
+        const endTime = parseCsvTime(endTimes[i].trim());
+        if (startTime === null) rowErrors.push(`Hora no válida en Inicio: "${startCell.trim()}"`);
+        if (endTime === null) rowErrors.push(`Hora no válida en Fin: "${endTimes[i].trim()}"`);
+        return { startTime: startTime ?? '', endTime: endTime ?? '' };
+      });
+    }
+
+    const breaks = parseCsvBreaks(cellFor('breaks'));
+    if (breaks === null) {
+      rowErrors.push(`Pausas no válidas: "${cellFor('breaks')}"`);
+    } else {
+      day.breaks = breaks;
+    }
+
+    (['dietaInt', 'extra', 'pernocta', 'propinas'] as const).forEach(field => {
+      const number = parseCsvNumber(cellFor(field));
+      if (number === null) {
+        rowErrors.push(`Número no válido en ${field}: "${cellFor(field)}"`);
+      } else {
+        day[field] = number;
+      }
+    });
+
+    if (rowErrors.length > 0) {
+      rowErrors.forEach(message => errors.push({ line, message }));
+      return;
+    }
+
+    seenDates.add(dateStr);
+    days.push(day);
+  });
+
+  return { days, errors };
+};
+
+// An imported day only replaces the fields of a stored day that the mapped
+// columns fill in; the rest (trips, columns left unmapped...) are kept.
+export const mergeImportedDays = (stored: TimesheetData, imported: TimesheetData, mapping: ColumnMapping): TimesheetData => {
+  const mappedKeys = new Set((Object.keys(mapping) as ImportField[]).flatMap(field => IMPORT_FIELD_TARGETS[field]));
+  const merged: TimesheetData = { ...stored };
+
+  Object.keys(imported).forEach(dateStr => {
+    const storedDay = stored[dateStr];
+    const importedDay = imported[dateStr];
+    merged[dateStr] = storedDay
+      ? { ...storedDay, ...Object.fromEntries([...mappedKeys].map(key => [key, importedDay[key]])) }
+      : importedDay;
+  });
+
+  return merged;
+};
+
+// Groups days into their `yyyy-MM` storage buckets. Buckets are calendar months;
+// the payroll period view picks days from them by date range when loading.
+export const groupDaysByMonth = (days: DayData[]): MonthMap => {
+  const months: MonthMap = {};
+  days.forEach(day => {
+    const monthKey = day.date.substring(0, 7);
+    months[monthKey] = { ...months[monthKey], [day.date]: day };
+  });
+  return months;
+};
@@ -0,0 +1,84 @@
+import { DayStatus } from './types';
+import { accountKey } from './accounts';
+
+const DAY_STATUS_STORAGE_KEY = 'app-day-statuses';
+
+export interface DayStatusInfo {
+  status: DayStatus;
+  label: string;
+  badgeClass: string;
+}
+
+export const DAY_STATUSES: DayStatusInfo[] = [
+  { status: 'worked', label: 'Trabajo', badgeClass: 'bg-slate-100 text-slate-700 dark:bg-slate-700 dark:text-slate-200' },
+  { status: 'vacation', label: 'Vacaciones', badgeClass: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300' },
+  { status: 'sick', label: 'Baja', badgeClass: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300' },
+  { status: 'dayOff', label: 'Libre', badgeClass: 'bg-slate-200 text-slate-600 dark:bg-slate-600 dark:text-slate-300' },
+  { status: 'holiday', label: 'Festivo', badgeClass: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300' },
+  { status: 'training', label: 'Formación', badgeClass: 'bg-purple-100 text-purple-800 dark:bg-purple-900/40 dark:text-purple-300' },
+];
+
+export const getStatusInfo = (status: DayStatus): DayStatusInfo =>
+  DAY_STATUSES.find(info => info.status === status) ?? DAY_STATUSES[0];
+
+// How a day with the status is paid: a fixed daily amount, plus the dietas and
+// nocturnidad of its hours only when paysDietas is set.
+export interface StatusPay {
+  dailyAmount: number;
+  paysDietas: boolean;
+}
+
+export interface DayStatusSettings {
+  pay: { [status in DayStatus]: StatusPay };
+  vacationDaysPerYear: number;
+}
+
+export const DEFAULT_DAY_STATUS_SETTINGS: DayStatusSettings = {
+  pay: {
+    worked: { dailyAmount: 0, paysDietas: true },
+    vacation: { dailyAmount: 0, paysDietas: false },
+    sick: { dailyAmount: 0, paysDietas: false },
+    dayOff: { dailyAmount: 0, paysDietas: false },
+    holiday: { dailyAmount: 0, paysDietas: false },
+    training: { dailyAmount: 0, paysDietas: true },
+  },
+  vacationDaysPerYear: 30,
+};
+
+export type StatusCounts = { [status in DayStatus]: number };
+
+export const EMPTY_STATUS_COUNTS: StatusCounts = {
+  worked: 0,
+  vacation: 0,
+  sick: 0,
+  dayOff: 0,
+  holiday: 0,
+  training: 0,
+};
+
+export const withDayStatusDefaults = (parsed: Partial<DayStatusSettings>): DayStatusSettings => ({
+  ...DEFAULT_DAY_STATUS_SETTINGS,
+  ...parsed,
+  pay: { ...DEFAULT_DAY_STATUS_SETTINGS.pay, ...parsed.pay },
+});
+
+export const loadDayStatusSettings = (accountId: string): DayStatusSettings => {
+  const stored = localStorage.getItem(accountKey(DAY_STATUS_STORAGE_KEY, accountId));
+  if (!stored) return DEFAULT_DAY_STATUS_SETTINGS;
+
+  try {
+    return withDayStatusDefaults(JSON.parse(stored));
+  } catch {
+    return DEFAULT_DAY_STATUS_SETTINGS;
+  }
+};
+
+export const saveDayStatusSettings = (accountId: string, settings: DayStatusSettings) => {
+  localStorage.setItem(accountKey(DAY_STATUS_STORAGE_KEY, accountId), JSON.stringify(settings));
+};
+
+// Lines like "3 días Baja" for every non-worked status used in the period.
+export const describeStatusCounts = (counts: StatusCounts): string[] =>
+  DAY_STATUSES
+    .filter(({ status }) => status !== 'worked' && counts[status] > 0)
+    .map(({ status, label }) => `${counts[status]} ${counts[status] === 1 ? 'día' : 'días'} ${label}`);
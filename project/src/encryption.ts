@@ -0,0 +1,65 @@
+import { bytesToBase64, base64ToBytes } from './auth';
+
+const KEY_ITERATIONS = 150000;
+const PAYLOAD_VERSION = 1;
+
+interface EncryptedPayload {
+  v: number;
+  iv: string;
+  data: string;
+}
+
+export const isEncryptedPayload = (raw: string): boolean => {
+  try {
+    const parsed = JSON.parse(raw);
+    return !!parsed && parsed.v === PAYLOAD_VERSION && typeof parsed.iv === 'string' && typeof parsed.data === 'string';
+  } catch {
+    return false;
+  }
+};
+
+export const generateSalt = (): string => bytesToBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+export const deriveDataKey = async (pin: string, salt: string): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(pin),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: base64ToBytes(salt), iterations: KEY_ITERATIONS, hash: 'SHA-256' },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<string> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value)),
+  );
+  const payload: EncryptedPayload = {
+    v: PAYLOAD_VERSION,
+    iv: bytesToBase64(iv),
+    data: bytesToBase64(new Uint8Array(encrypted)),
+  };
+  return JSON.stringify(payload);
+};
+
+// Throws when the key does not match; AES-GCM authenticates the ciphertext so a
+// wrong key can never produce garbage that would later be written back.
+export const decryptJson = async <T>(key: CryptoKey, raw: string): Promise<T> => {
+  const payload = JSON.parse(raw) as EncryptedPayload;
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64ToBytes(payload.iv) },
+    key,
+    base64ToBytes(payload.data),
+  );
+  return JSON.parse(new TextDecoder().decode(decrypted)) as T;
+};
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { Expense, createEmptyExpense, describeCategoryTotals, getExpensesInRange, summarizeExpenses } from './expenses';
+
+const expense = (date: string, fields: Partial<Expense>): Expense => ({ ...createEmptyExpense(date), ...fields });
+
+describe('summarizeExpenses', () => {
+  const expenses = [
+    expense('2024-03-04', { category: 'toll', amount: 12.4, paymentMethod: 'cash' }),
+    expense('2024-03-04', { category: 'fuel', amount: 80, paymentMethod: 'companyCard' }),
+    expense('2024-03-05', { category: 'meal', amount: 14.5, paymentMethod: 'personalCard' }),
+  ];
+
+  it('owes back only what was paid out of pocket', () => {
+    const summary = summarizeExpenses(expenses);
+
+    expect(summary.count).toBe(3);
+    expect(summary.total).toBeCloseTo(106.9);
+    expect(summary.reimbursable).toBeCloseTo(26.9);
+  });
+
+  it('totals each category and lists those with spending', () => {
+    const summary = summarizeExpenses(expenses);
+
+    expect(summary.byCategory.fuel).toBe(80);
+    expect(summary.byCategory.parking).toBe(0);
+    expect(describeCategoryTotals(summary)).toEqual(['Peaje 12.40€', 'Combustible 80.00€', 'Comida 14.50€']);
+  });
+});
+
+describe('getExpensesInRange', () => {
+  it('keeps the expenses of the range in date order', () => {
+    const expenses = [
+      expense('2024-03-26', { amount: 1 }),
+      expense('2024-03-25', { amount: 2 }),
+      expense('2024-02-26', { amount: 3 }),
+      expense('2024-02-25', { amount: 4 }),
+    ];
+
+    const inRange = getExpensesInRange(expenses, new Date(2024, 1, 26), new Date(2024, 2, 25));
+
+    expect(inRange.map(item => item.date)).toEqual(['2024-02-26', '2024-03-25']);
+  });
+});
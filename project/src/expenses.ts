@@ -0,0 +1,112 @@
+import { isDateStrInRange } from './fiscal';
+
+export type ExpenseCategory = 'toll' | 'parking' | 'fuel' | 'meal' | 'other';
+
+export type PaymentMethod = 'cash' | 'personalCard' | 'companyCard';
+
+export const EXPENSE_CATEGORIES: Array<{ category: ExpenseCategory; label: string }> = [
+  { category: 'toll', label: 'Peaje' },
+  { category: 'parking', label: 'Aparcamiento' },
+  { category: 'fuel', label: 'Combustible' },
+  { category: 'meal', label: 'Comida' },
+  { category: 'other', label: 'Otros' },
+];
+
+// Only what the driver paid out of pocket is owed back; the company card is
+// already the company's money.
+export const PAYMENT_METHODS: Array<{ method: PaymentMethod; label: string; reimbursable: boolean }> = [
+  { method: 'cash', label: 'Efectivo', reimbursable: true },
+  { method: 'personalCard', label: 'Tarjeta personal', reimbursable: true },
+  { method: 'companyCard', label: 'Tarjeta de empresa', reimbursable: false },
+];
+
+export interface Expense {
+  id: string;
+  date: string;
+  category: ExpenseCategory;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  description: string;
+  // Key of the photo in the receipts store, if one was taken.
+  receiptId: string | null;
+}
+
+// A receipt photo, already scaled down, with its size so it can be drawn
+// without distortion.
+export interface ReceiptImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+export interface ExpenseSummary {
+  count: number;
+  total: number;
+  reimbursable: number;
+  byCategory: { [category in ExpenseCategory]: number };
+}
+
+const RECEIPT_MAX_SIZE = 1200;
+const RECEIPT_QUALITY = 0.7;
+
+export const createExpenseId = (): string =>
+  `expense-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createEmptyExpense = (date: string): Expense => ({
+  id: createExpenseId(),
+  date,
+  category: 'toll',
+  amount: 0,
+  paymentMethod: 'cash',
+  description: '',
+  receiptId: null,
+});
+
+export const getCategoryLabel = (category: ExpenseCategory): string =>
+  EXPENSE_CATEGORIES.find(option => option.category === category)?.label ?? category;
+
+export const getPaymentMethodInfo = (method: PaymentMethod) =>
+  PAYMENT_METHODS.find(option => option.method === method) ?? PAYMENT_METHODS[0];
+
+export const getExpensesInRange = (expenses: Expense[], startDate: Date, endDate: Date): Expense[] =>
+  expenses
+    .filter(expense => isDateStrInRange(expense.date, startDate, endDate))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+export const summarizeExpenses = (expenses: Expense[]): ExpenseSummary =>
+  expenses.reduce<ExpenseSummary>((summary, expense) => ({
+    count: summary.count + 1,
+    total: summary.total + expense.amount,
+    reimbursable: summary.reimbursable + (getPaymentMethodInfo(expense.paymentMethod).reimbursable ? expense.amount : 0),
+    byCategory: { ...summary.byCategory, [expense.category]: summary.byCategory[expense.category] + expense.amount },
+  }), {
+    count: 0,
+    total: 0,
+    reimbursable: 0,
+    byCategory: { toll: 0, parking: 0, fuel: 0, meal: 0, other: 0 },
+  });
+
+// "Peaje 12.40€ · Combustible 80.00€" for the categories with any spending.
+export const describeCategoryTotals = (summary: ExpenseSummary): string[] =>
+  EXPENSE_CATEGORIES
+    .filter(({ category }) => summary.byCategory[category] > 0)
+    .map(({ category, label }) => `${label} ${summary.byCategory[category].toFixed(2)}€`);
+
+// Phone photos are several megabytes; a JPEG no larger than RECEIPT_MAX_SIZE
+// on its longest side is still readable and keeps the database small.
+export const readReceiptImage = async (file: File): Promise<ReceiptImage> => {
+  const bitmap = await createImageBitmap(file);
+  const scale = Math.min(1, RECEIPT_MAX_SIZE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas 2D context unavailable');
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  return { dataUrl: canvas.toDataURL('image/jpeg', RECEIPT_QUALITY), width, height };
+};
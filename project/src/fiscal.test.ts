@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_PERIOD_DEFINITION,
+  PeriodDefinition,
+  getFiscalPeriod,
+  getFiscalYearRange,
+  getFiscalPeriodsInRange,
+  getRangeDates,
+  isDateStrInRange,
+  pickDaysInRange,
+  toDateStr,
+} from './fiscal';
+import { createEmptyDay } from './types';
+
+const DEFINITIONS = [DEFAULT_PERIOD_DEFINITION];
+
+const definition = (validFrom: string, fields: Partial<PeriodDefinition>): PeriodDefinition => ({
+  ...DEFAULT_PERIOD_DEFINITION,
+  id: validFrom,
+  validFrom,
+  ...fields,
+});
+
+describe('getFiscalPeriod', () => {
+  it('runs from the 26th of the previous month to the 25th', () => {
+    const range = getFiscalPeriod(new Date(2024, 2, 10), DEFINITIONS);
+
+    expect(toDateStr(range.startDate)).toBe('2024-02-26');
+    expect(toDateStr(range.endDate)).toBe('2024-03-25');
+    expect(range.monthKeys).toEqual(['2024-02', '2024-03']);
+    expect(range.label).toBe('marzo 2024');
+  });
+
+  it('starts January in December of the previous year', () => {
+    const range = getFiscalPeriod(new Date(2025, 0, 1), DEFINITIONS);
+
+    expect(toDateStr(range.startDate)).toBe('2024-12-26');
+    expect(toDateStr(range.endDate)).toBe('2025-01-25');
+    expect(range.monthKeys[0]).toBe('2024-12');
+  });
+
+  it('lists every day of a leap-year February period', () => {
+    const range = getFiscalPeriod(new Date(2024, 2, 1), DEFINITIONS);
+    const dates = getRangeDates(range.startDate, range.endDate);
+
+    expect(dates[0]).toBe('2024-02-26');
+    expect(dates).toContain('2024-02-29');
+    expect(dates[dates.length - 1]).toBe('2024-03-25');
+    expect(dates).toHaveLength(29);
+  });
+});
+
+describe('period definitions', () => {
+  it('uses the 26th of the current month once it is reached', () => {
+    const range = getFiscalPeriod(new Date(2024, 2, 27), DEFINITIONS);
+
+    expect(toDateStr(range.startDate)).toBe('2024-03-26');
+    expect(toDateStr(range.endDate)).toBe('2024-04-25');
+  });
+
+  it('supports calendar months, fortnights and weeks', () => {
+    const calendar = getFiscalPeriod(new Date(2024, 1, 10), [definition('2000-01-01', { startDay: 1 })]);
+    const fortnight = getFiscalPeriod(new Date(2024, 1, 20), [definition('2000-01-01', { kind: 'fortnightly' })]);
+    const week = getFiscalPeriod(new Date(2024, 1, 8), [definition('2000-01-01', { kind: 'weekly', weekStartsOn: 1 })]);
+
+    expect([toDateStr(calendar.startDate), toDateStr(calendar.endDate)]).toEqual(['2024-02-01', '2024-02-29']);
+    expect([toDateStr(fortnight.startDate), toDateStr(fortnight.endDate)]).toEqual(['2024-02-16', '2024-02-29']);
+    expect([toDateStr(week.startDate), toDateStr(week.endDate)]).toEqual(['2024-02-05', '2024-02-11']);
+  });
+
+  it('cuts the periods around the date a new definition takes effect', () => {
+    const definitions = [DEFAULT_PERIOD_DEFINITION, definition('2024-03-04', { kind: 'weekly', weekStartsOn: 1 })];
+    const before = getFiscalPeriod(new Date(2024, 2, 1), definitions);
+    const after = getFiscalPeriod(new Date(2024, 2, 5), definitions);
+
+    expect([toDateStr(before.startDate), toDateStr(before.endDate)]).toEqual(['2024-02-26', '2024-03-03']);
+    expect([toDateStr(after.startDate), toDateStr(after.endDate)]).toEqual(['2024-03-04', '2024-03-10']);
+  });
+
+  it('keeps historic periods unchanged when a definition starts mid-period', () => {
+    const definitions = [DEFAULT_PERIOD_DEFINITION, definition('2024-03-10', { startDay: 1 })];
+    const old = getFiscalPeriod(new Date(2024, 1, 27), definitions);
+    const transition = getFiscalPeriod(new Date(2024, 2, 12), definitions);
+
+    expect([toDateStr(old.startDate), toDateStr(old.endDate)]).toEqual(['2024-02-26', '2024-03-09']);
+    expect([toDateStr(transition.startDate), toDateStr(transition.endDate)]).toEqual(['2024-03-10', '2024-03-31']);
+  });
+});
+
+describe('getFiscalYearRange', () => {
+  it('spans the periods ending in the year', () => {
+    const range = getFiscalYearRange(2024, DEFINITIONS);
+
+    expect(toDateStr(range.startDate)).toBe('2023-12-26');
+    expect(toDateStr(range.endDate)).toBe('2024-12-25');
+  });
+
+  it('matches the calendar year for calendar months', () => {
+    const range = getFiscalYearRange(2024, [definition('2000-01-01', { startDay: 1 })]);
+
+    expect(toDateStr(range.startDate)).toBe('2024-01-01');
+    expect(toDateStr(range.endDate)).toBe('2024-12-31');
+  });
+});
+
+describe('getFiscalPeriodsInRange', () => {
+  it('splits a fiscal year into its payroll periods', () => {
+    const range = getFiscalYearRange(2024, DEFINITIONS);
+    const periods = getFiscalPeriodsInRange(range.startDate, range.endDate, DEFINITIONS);
+
+    expect(periods).toHaveLength(12);
+    expect(periods[0].label).toBe('enero 2024');
+    expect(toDateStr(periods[11].endDate)).toBe('2024-12-25');
+  });
+
+  it('includes the periods cut short by a definition change', () => {
+    const definitions = [DEFAULT_PERIOD_DEFINITION, definition('2024-06-10', { startDay: 1 })];
+    const range = getFiscalYearRange(2024, definitions);
+    const periods = getFiscalPeriodsInRange(range.startDate, range.endDate, definitions);
+
+    expect(periods.map(period => toDateStr(period.startDate)).slice(4, 8)).toEqual([
+      '2024-04-26', '2024-05-26', '2024-06-10', '2024-07-01',
+    ]);
+    expect(toDateStr(periods[periods.length - 1].endDate)).toBe('2024-12-31');
+  });
+});
+
+describe('cutoff boundary', () => {
+  const range = getFiscalPeriod(new Date(2024, 2, 1), DEFINITIONS);
+
+  it('includes the 26th and the 25th and excludes the days around them', () => {
+    expect(isDateStrInRange('2024-02-25', range.startDate, range.endDate)).toBe(false);
+    expect(isDateStrInRange('2024-02-26', range.startDate, range.endDate)).toBe(true);
+    expect(isDateStrInRange('2024-03-25', range.startDate, range.endDate)).toBe(true);
+    expect(isDateStrInRange('2024-03-26', range.startDate, range.endDate)).toBe(false);
+  });
+
+  it('picks only the days of the period from both storage buckets', () => {
+    const buckets = {
+      '2024-02-25': createEmptyDay('2024-02-25'),
+      '2024-02-26': createEmptyDay('2024-02-26'),
+      '2024-03-25': createEmptyDay('2024-03-25'),
+      '2024-03-26': createEmptyDay('2024-03-26'),
+    };
+
+    expect(Object.keys(pickDaysInRange(buckets, range.startDate, range.endDate))).toEqual(['2024-02-26', '2024-03-25']);
+  });
+});
@@ -0,0 +1,183 @@
+import {
+  format,
+  addDays,
+  subDays,
+  addMonths,
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  getYear,
+  parseISO,
+} from 'date-fns';
+import { es } from 'date-fns/locale';
+import { TimesheetData } from './types';
+import { accountKey } from './accounts';
+
+const PERIODS_STORAGE_KEY = 'app-fiscal-periods';
+
+export type PeriodKind = 'monthly' | 'fortnightly' | 'weekly';
+
+// How payroll periods are cut from a given date on. Monthly periods start on
+// startDay (1 for calendar months); fortnights run 1-15 and 16-end of month;
+// weeks start on weekStartsOn (0 = Sunday).
+export interface PeriodDefinition {
+  id: string;
+  validFrom: string;
+  kind: PeriodKind;
+  startDay: number;
+  weekStartsOn: number;
+}
+
+export const DEFAULT_PERIOD_DEFINITION: PeriodDefinition = {
+  id: 'default',
+  validFrom: '2000-01-01',
+  kind: 'monthly',
+  startDay: 26,
+  weekStartsOn: 1,
+};
+
+export interface FiscalDateRange {
+  startDate: Date;
+  endDate: Date;
+  label: string;
+  monthKeys: string[];
+}
+
+export const toDateStr = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+export const getMonthKeysInRange = (startDate: Date, endDate: Date): string[] =>
+  eachMonthOfInterval({ start: startDate, end: endDate }).map(month => format(month, 'yyyy-MM'));
+
+const createRange = (startDate: Date, endDate: Date, label: string): FiscalDateRange => ({
+  startDate,
+  endDate,
+  label,
+  monthKeys: getMonthKeysInRange(startDate, endDate),
+});
+
+// A monthly period is named after the month it ends in, so the 26th-to-25th
+// period ending on 25 March is "marzo".
+const getUnclippedRange = (date: Date, definition: PeriodDefinition): FiscalDateRange => {
+  const year = getYear(date);
+  const month = date.getMonth();
+
+  if (definition.kind === 'weekly') {
+    const startDate = startOfWeek(date, { weekStartsOn: definition.weekStartsOn as 0 | 1 | 2 | 3 | 4 | 5 | 6 });
+    return createRange(startDate, addDays(startDate, 6), `Semana del ${format(startDate, 'd MMM yyyy', { locale: es })}`);
+  }
+
+  if (definition.kind === 'fortnightly') {
+    const monthLabel = format(date, 'MMMM yyyy', { locale: es });
+    return date.getDate() <= 15
+      ? createRange(new Date(year, month, 1), new Date(year, month, 15), `1ª quincena ${monthLabel}`)
+      : createRange(new Date(year, month, 16), endOfMonth(date), `2ª quincena ${monthLabel}`);
+  }
+
+  if (definition.startDay <= 1) {
+    return createRange(startOfMonth(date), endOfMonth(date), format(date, 'MMMM yyyy', { locale: es }));
+  }
+
+  const startDate = date.getDate() >= definition.startDay
+    ? new Date(year, month, definition.startDay)
+    : new Date(year, month - 1, definition.startDay);
+  const endDate = subDays(addMonths(startDate, 1), 1);
+  return createRange(startDate, endDate, format(endDate, 'MMMM yyyy', { locale: es }));
+};
+
+export const sortPeriodDefinitions = (definitions: PeriodDefinition[]): PeriodDefinition[] =>
+  [...definitions].sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+
+// Returns the payroll period containing the date. A period that straddles the
+// date a new definition takes effect is cut there, so changing the definition
+// never moves days that already belonged to an earlier period.
+export const getFiscalPeriod = (date: Date, definitions: PeriodDefinition[]): FiscalDateRange => {
+  const sorted = sortPeriodDefinitions(definitions.length > 0 ? definitions : [DEFAULT_PERIOD_DEFINITION]);
+  const dateStr = toDateStr(date);
+
+  let index = 0;
+  sorted.forEach((definition, i) => {
+    if (definition.validFrom <= dateStr) index = i;
+  });
+
+  const range = getUnclippedRange(date, sorted[index]);
+  let { startDate, endDate } = range;
+
+  if (index > 0 && toDateStr(startDate) < sorted[index].validFrom) {
+    startDate = parseISO(sorted[index].validFrom);
+  }
+  const next = sorted[index + 1];
+  if (next && toDateStr(endDate) >= next.validFrom) {
+    endDate = subDays(parseISO(next.validFrom), 1);
+  }
+
+  return createRange(startDate, endDate, range.label);
+};
+
+// All the periods whose last day falls in the year, as one date range.
+export const getFiscalYearRange = (year: number, definitions: PeriodDefinition[]): FiscalDateRange => {
+  const lastOfPreviousYear = getFiscalPeriod(new Date(year - 1, 11, 31), definitions);
+  const lastOfYear = getFiscalPeriod(new Date(year, 11, 31), definitions);
+
+  const startDate = getYear(lastOfPreviousYear.endDate) === year
+    ? lastOfPreviousYear.startDate
+    : addDays(lastOfPreviousYear.endDate, 1);
+  const endDate = getYear(lastOfYear.endDate) === year
+    ? lastOfYear.endDate
+    : subDays(lastOfYear.startDate, 1);
+
+  return createRange(startDate, endDate, String(year));
+};
+
+// The payroll periods that make up [startDate, endDate], which must itself
+// start and end on period boundaries, as getFiscalYearRange does.
+export const getFiscalPeriodsInRange = (
+  startDate: Date,
+  endDate: Date,
+  definitions: PeriodDefinition[],
+): FiscalDateRange[] => {
+  const periods: FiscalDateRange[] = [];
+  for (let date = startDate; date <= endDate;) {
+    const period = getFiscalPeriod(date, definitions);
+    periods.push(period);
+    date = addDays(period.endDate, 1);
+  }
+  return periods;
+};
+
+export const getRangeDates = (startDate: Date, endDate: Date): string[] =>
+  eachDayOfInterval({ start: startDate, end: endDate }).map(toDateStr);
+
+export const isDateStrInRange = (dateStr: string, startDate: Date, endDate: Date): boolean =>
+  dateStr >= toDateStr(startDate) && dateStr <= toDateStr(endDate);
+
+export const pickDaysInRange = (data: TimesheetData, startDate: Date, endDate: Date): TimesheetData => {
+  const picked: TimesheetData = {};
+  Object.keys(data).forEach((dateStr: string) => {
+    if (isDateStrInRange(dateStr, startDate, endDate)) {
+      picked[dateStr] = data[dateStr];
+    }
+  });
+  return picked;
+};
+
+export const withPeriodDefaults = (parsed: PeriodDefinition[]): PeriodDefinition[] => {
+  if (!Array.isArray(parsed) || parsed.length === 0) return [DEFAULT_PERIOD_DEFINITION];
+  return sortPeriodDefinitions(parsed.map(definition => ({ ...DEFAULT_PERIOD_DEFINITION, ...definition })));
+};
+
+export const loadPeriodDefinitions = (accountId: string): PeriodDefinition[] => {
+  const stored = localStorage.getItem(accountKey(PERIODS_STORAGE_KEY, accountId));
+  if (!stored) return [DEFAULT_PERIOD_DEFINITION];
+
+  try {
+    return withPeriodDefaults(JSON.parse(stored));
+  } catch {
+    return [DEFAULT_PERIOD_DEFINITION];
+  }
+};
+
+export const savePeriodDefinitions = (accountId: string, definitions: PeriodDefinition[]) => {
+  localStorage.setItem(accountKey(PERIODS_STORAGE_KEY, accountId), JSON.stringify(sortPeriodDefinitions(definitions)));
+};
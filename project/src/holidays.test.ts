@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_HOLIDAY_SETTINGS, getEasterSunday, getHoliday, getHolidays } from './holidays';
+import { toDateStr } from './fiscal';
+
+describe('getEasterSunday', () => {
+  it('finds Easter Sunday for early and late years', () => {
+    expect(toDateStr(getEasterSunday(2024))).toBe('2024-03-31');
+    expect(toDateStr(getEasterSunday(2025))).toBe('2025-04-20');
+    expect(toDateStr(getEasterSunday(2038))).toBe('2038-04-25');
+  });
+});
+
+describe('getHolidays', () => {
+  it('includes the fixed national holidays and Good Friday', () => {
+    const dates = getHolidays(2025, DEFAULT_HOLIDAY_SETTINGS).map(holiday => holiday.date);
+
+    expect(dates).toContain('2025-01-06');
+    expect(dates).toContain('2025-04-18');
+    expect(dates).toContain('2025-12-08');
+    expect(dates).not.toContain('2025-04-17');
+  });
+
+  it('adds the selected community and the local holidays of that year only', () => {
+    const holidays = getHolidays(2025, {
+      region: 'CT',
+      localHolidays: [{ date: '2025-09-24', name: 'La Mercè' }, { date: '2024-09-24', name: 'La Mercè' }],
+    });
+
+    expect(holidays.find(holiday => holiday.date === '2025-04-21')?.scope).toBe('regional');
+    expect(holidays.find(holiday => holiday.date === '2025-09-11')?.name).toBe('Diada Nacional de Catalunya');
+    expect(holidays.filter(holiday => holiday.scope === 'local')).toHaveLength(1);
+  });
+
+  it('keeps the national holiday when a local one falls on the same day', () => {
+    const holiday = getHoliday('2025-12-25', { region: '', localHolidays: [{ date: '2025-12-25', name: 'Repetido' }] });
+
+    expect(holiday?.scope).toBe('national');
+  });
+});
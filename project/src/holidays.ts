@@ -0,0 +1,138 @@
+import { addDays, format } from 'date-fns';
+import { accountKey } from './accounts';
+
+const HOLIDAYS_STORAGE_KEY = 'app-holidays';
+
+export type HolidayScope = 'national' | 'regional' | 'local';
+
+export interface Holiday {
+  date: string;
+  name: string;
+  scope: HolidayScope;
+}
+
+export interface LocalHoliday {
+  date: string;
+  name: string;
+}
+
+export interface HolidaySettings {
+  region: string;
+  localHolidays: LocalHoliday[];
+}
+
+export const DEFAULT_HOLIDAY_SETTINGS: HolidaySettings = {
+  region: '',
+  localHolidays: [],
+};
+
+// A recurring holiday is either a fixed day of the year ('MM-dd') or an offset
+// in days from Easter Sunday.
+type HolidayRule = { name: string } & ({ monthDay: string } | { easterOffset: number });
+
+const JUEVES_SANTO: HolidayRule = { name: 'Jueves Santo', easterOffset: -3 };
+const LUNES_DE_PASCUA: HolidayRule = { name: 'Lunes de Pascua', easterOffset: 1 };
+
+const NATIONAL_RULES: HolidayRule[] = [
+  { name: 'Año Nuevo', monthDay: '01-01' },
+  { name: 'Epifanía del Señor', monthDay: '01-06' },
+  { name: 'Viernes Santo', easterOffset: -2 },
+  { name: 'Fiesta del Trabajo', monthDay: '05-01' },
+  { name: 'Asunción de la Virgen', monthDay: '08-15' },
+  { name: 'Fiesta Nacional de España', monthDay: '10-12' },
+  { name: 'Todos los Santos', monthDay: '11-01' },
+  { name: 'Día de la Constitución', monthDay: '12-06' },
+  { name: 'Inmaculada Concepción', monthDay: '12-08' },
+  { name: 'Navidad', monthDay: '12-25' },
+];
+
+// The usual holidays of each community. The official calendar moves some of
+// them from year to year; those changes are entered as local holidays.
+export const REGIONS: Array<{ code: string; name: string; rules: HolidayRule[] }> = [
+  { code: 'AN', name: 'Andalucía', rules: [{ name: 'Día de Andalucía', monthDay: '02-28' }, JUEVES_SANTO] },
+  { code: 'AR', name: 'Aragón', rules: [JUEVES_SANTO, { name: 'San Jorge', monthDay: '04-23' }] },
+  { code: 'AS', name: 'Asturias', rules: [JUEVES_SANTO, { name: 'Día de Asturias', monthDay: '09-08' }] },
+  { code: 'IB', name: 'Illes Balears', rules: [{ name: 'Día de les Illes Balears', monthDay: '03-01' }, LUNES_DE_PASCUA] },
+  { code: 'CN', name: 'Canarias', rules: [JUEVES_SANTO, { name: 'Día de Canarias', monthDay: '05-30' }] },
+  { code: 'CB', name: 'Cantabria', rules: [JUEVES_SANTO, { name: 'Día de las Instituciones', monthDay: '07-28' }, { name: 'La Bien Aparecida', monthDay: '09-15' }] },
+  { code: 'CL', name: 'Castilla y León', rules: [JUEVES_SANTO, { name: 'Día de Castilla y León', monthDay: '04-23' }] },
+  { code: 'CM', name: 'Castilla-La Mancha', rules: [JUEVES_SANTO, { name: 'Día de Castilla-La Mancha', monthDay: '05-31' }, { name: 'Corpus Christi', easterOffset: 60 }] },
+  { code: 'CT', name: 'Cataluña', rules: [LUNES_DE_PASCUA, { name: 'Sant Joan', monthDay: '06-24' }, { name: 'Diada Nacional de Catalunya', monthDay: '09-11' }, { name: 'Sant Esteve', monthDay: '12-26' }] },
+  { code: 'EX', name: 'Extremadura', rules: [JUEVES_SANTO, { name: 'Día de Extremadura', monthDay: '09-08' }] },
+  { code: 'GA', name: 'Galicia', rules: [JUEVES_SANTO, { name: 'Día das Letras Galegas', monthDay: '05-17' }, { name: 'Día Nacional de Galicia', monthDay: '07-25' }] },
+  { code: 'MD', name: 'Comunidad de Madrid', rules: [JUEVES_SANTO, { name: 'Fiesta de la Comunidad de Madrid', monthDay: '05-02' }] },
+  { code: 'MC', name: 'Región de Murcia', rules: [JUEVES_SANTO, { name: 'Día de la Región de Murcia', monthDay: '06-09' }] },
+  { code: 'NC', name: 'Navarra', rules: [JUEVES_SANTO, LUNES_DE_PASCUA, { name: 'San Francisco Javier', monthDay: '12-03' }] },
+  { code: 'PV', name: 'País Vasco', rules: [JUEVES_SANTO, LUNES_DE_PASCUA, { name: 'Santiago Apóstol', monthDay: '07-25' }] },
+  { code: 'RI', name: 'La Rioja', rules: [JUEVES_SANTO, { name: 'Día de La Rioja', monthDay: '06-09' }] },
+  { code: 'VC', name: 'Comunitat Valenciana', rules: [{ name: 'San José', monthDay: '03-19' }, LUNES_DE_PASCUA, { name: 'San Juan', monthDay: '06-24' }, { name: 'Día de la Comunitat Valenciana', monthDay: '10-09' }] },
+  { code: 'CE', name: 'Ceuta', rules: [JUEVES_SANTO, { name: 'Día de Ceuta', monthDay: '09-02' }] },
+  { code: 'ML', name: 'Melilla', rules: [JUEVES_SANTO, { name: 'Día de Melilla', monthDay: '09-17' }] },
+];
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher).
+export const getEasterSunday = (year: number): Date => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+const resolveRule = (rule: HolidayRule, year: number, easter: Date): string =>
+  'monthDay' in rule ? `${year}-${rule.monthDay}` : format(addDays(easter, rule.easterOffset), 'yyyy-MM-dd');
+
+// Lists the holidays of a year, sorted by date. When the same day is a holiday
+// at several levels the broadest one is kept.
+export const getHolidays = (year: number, settings: HolidaySettings): Holiday[] => {
+  const easter = getEasterSunday(year);
+  const byDate: { [date: string]: Holiday } = {};
+
+  const add = (holiday: Holiday) => {
+    if (!byDate[holiday.date]) byDate[holiday.date] = holiday;
+  };
+
+  NATIONAL_RULES.forEach(rule => add({ date: resolveRule(rule, year, easter), name: rule.name, scope: 'national' }));
+
+  const region = REGIONS.find(candidate => candidate.code === settings.region);
+  region?.rules.forEach(rule => add({ date: resolveRule(rule, year, easter), name: rule.name, scope: 'regional' }));
+
+  settings.localHolidays
+    .filter(holiday => holiday.date.startsWith(`${year}-`))
+    .forEach(holiday => add({ ...holiday, scope: 'local' }));
+
+  return Object.values(byDate).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const getHoliday = (dateStr: string, settings: HolidaySettings): Holiday | undefined =>
+  getHolidays(Number(dateStr.slice(0, 4)), settings).find(holiday => holiday.date === dateStr);
+
+export const withHolidayDefaults = (parsed: Partial<HolidaySettings>): HolidaySettings => ({
+  ...DEFAULT_HOLIDAY_SETTINGS,
+  ...parsed,
+});
+
+export const loadHolidaySettings = (accountId: string): HolidaySettings => {
+  const stored = localStorage.getItem(accountKey(HOLIDAYS_STORAGE_KEY, accountId));
+  if (!stored) return DEFAULT_HOLIDAY_SETTINGS;
+
+  try {
+    return withHolidayDefaults(JSON.parse(stored));
+  } catch {
+    return DEFAULT_HOLIDAY_SETTINGS;
+  }
+};
+
+export const saveHolidaySettings = (accountId: string, settings: HolidaySettings) => {
+  localStorage.setItem(accountKey(HOLIDAYS_STORAGE_KEY, accountId), JSON.stringify(settings));
+};
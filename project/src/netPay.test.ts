@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { CalculationContext, calculateDays, summarizeDays } from './calculations';
+import { DEFAULT_DAY_STATUS_SETTINGS } from './dayStatus';
+import { DEFAULT_PERIOD_DEFINITION } from './fiscal';
+import { DEFAULT_HOLIDAY_SETTINGS } from './holidays';
+import {
+  DEFAULT_EXEMPTION_LIMITS,
+  DEFAULT_NET_PAY_SETTINGS,
+  NetPaySettings,
+  estimateNetPay,
+  getBaseSalaryForRange,
+  getExemptKilometraje,
+  getExemptionLimits,
+  splitDietas,
+  withNetPayDefaults,
+} from './netPay';
+import { DEFAULT_RATE_TABLE } from './rates';
+import { DayData, TimesheetData, createEmptyDay, createEmptyTrip } from './types';
+
+const CONTEXT: CalculationContext = {
+  rateTables: [DEFAULT_RATE_TABLE],
+  holidays: DEFAULT_HOLIDAY_SETTINGS,
+  statuses: DEFAULT_DAY_STATUS_SETTINGS,
+  periods: [DEFAULT_PERIOD_DEFINITION],
+};
+
+// Days with only unit allowances, at the default 25€ dieta int and 40€ pernocta.
+const calculate = (fieldsByDate: { [date: string]: Partial<DayData> }) => {
+  const data: TimesheetData = {};
+  Object.keys(fieldsByDate).forEach(date => {
+    data[date] = { ...createEmptyDay(date), ...fieldsByDate[date] };
+  });
+  return calculateDays(data, CONTEXT);
+};
+
+describe('splitDietas', () => {
+  it('exempts each day up to the limit for its kind of trip', () => {
+    const days = calculate({
+      '2025-03-03': { dietaInt: 1, pernocta: 1 },
+      '2025-03-04': { pernocta: 2 },
+      '2025-03-05': { dietaInt: 2 },
+    });
+    const split = splitDietas(days, DEFAULT_NET_PAY_SETTINGS);
+
+    expect(split.exempt).toBeCloseTo(65 + 53.34 + 48.08);
+    expect(split.taxable).toBeCloseTo(26.66 + 1.92);
+  });
+
+  it('uses the limits in force on the day', () => {
+    const settings: NetPaySettings = {
+      ...DEFAULT_NET_PAY_SETTINGS,
+      exemptionLimits: [DEFAULT_EXEMPTION_LIMITS, { ...DEFAULT_EXEMPTION_LIMITS, validFrom: '2026-01-01', domesticOvernight: 60 }],
+    };
+
+    expect(getExemptionLimits('2025-12-31', settings).domesticOvernight).toBe(53.34);
+    expect(getExemptionLimits('2027-03-01', settings).domesticOvernight).toBe(60);
+    expect(splitDietas(calculate({ '2026-03-03': { pernocta: 2 } }), settings).taxable).toBeCloseTo(20);
+  });
+});
+
+describe('getBaseSalaryForRange', () => {
+  const settings = { ...DEFAULT_NET_PAY_SETTINGS, baseSalary: 1200, extraPayments: 2 };
+
+  it('pays whole months at the monthly salary with the pagas extra prorated', () => {
+    expect(getBaseSalaryForRange(new Date(2025, 0, 26), new Date(2025, 1, 25), settings)).toBeCloseTo(1400);
+    expect(getBaseSalaryForRange(new Date(2024, 11, 26), new Date(2025, 11, 25), settings)).toBeCloseTo(16800);
+  });
+
+  it('pays other ranges a daily share of the year', () => {
+    expect(getBaseSalaryForRange(new Date(2025, 2, 3), new Date(2025, 2, 9), settings)).toBeCloseTo(16800 / 365 * 7);
+  });
+});
+
+describe('estimateNetPay', () => {
+  it('withholds IRPF and Social Security on everything but the exempt dietas', () => {
+    const days = calculate({ '2025-03-04': { pernocta: 2, extra: 1 } });
+    const settings = { ...DEFAULT_NET_PAY_SETTINGS, irpfPercent: 10, socialSecurityPercent: 6.5 };
+    const estimate = estimateNetPay(days, summarizeDays(days, { includePropinas: false }), 1000, settings);
+
+    expect(estimate.grossPay).toBeCloseTo(1000 + 80 + 120);
+    expect(estimate.taxableBase).toBeCloseTo(1200 - 53.34);
+    expect(estimate.irpf).toBeCloseTo(114.666);
+    expect(estimate.socialSecurity).toBeCloseTo(74.5329);
+    expect(estimate.netPay).toBeCloseTo(1200 - 114.666 - 74.5329);
+  });
+
+  it('exempts 0,19 €/km before July 2023 and 0,26 €/km from then on', () => {
+    // 100 km paid at 0,30 €/km on the day.
+    const trip = (date: string) => calculateDays({
+      [date]: { ...createEmptyDay(date), trips: [{ ...createEmptyTrip(), km: 100 }] },
+    }, { ...CONTEXT, rateTables: [{ ...DEFAULT_RATE_TABLE, kilometraje: 0.3 }] });
+    const june = trip('2023-06-30');
+    const july = trip('2023-07-01');
+
+    expect(getExemptKilometraje(june, DEFAULT_NET_PAY_SETTINGS)).toBeCloseTo(19);
+    expect(getExemptKilometraje(july, DEFAULT_NET_PAY_SETTINGS)).toBeCloseTo(26);
+  });
+
+  it('reads limits saved by year and without kilometraje', () => {
+    const saved = withNetPayDefaults(JSON.parse('{"exemptionLimits":[{"year":2009,"domestic":26.67,"domesticOvernight":53.34,"international":48.08,"internationalOvernight":91.35}]}'));
+
+    expect(saved.exemptionLimits.map(limits => limits.validFrom)).toEqual(['2009-01-01', '2023-07-01']);
+    expect(getExemptionLimits('2023-06-30', saved).perKm).toBe(0.19);
+    expect(getExemptionLimits('2025-03-01', saved).perKm).toBe(0.26);
+  });
+
+  it('only taxes the kilometraje paid above the exempt rate per kilometre', () => {
+    const days = calculateDays({
+      '2025-03-04': { ...createEmptyDay('2025-03-04'), trips: [{ ...createEmptyTrip(), km: 100 }] },
+    }, { ...CONTEXT, rateTables: [{ ...DEFAULT_RATE_TABLE, kilometraje: 0.3 }] });
+    const estimate = estimateNetPay(days, summarizeDays(days, { includePropinas: false }), 0, DEFAULT_NET_PAY_SETTINGS);
+
+    expect(estimate.grossPay).toBeCloseTo(30);
+    expect(estimate.exemptKilometraje).toBeCloseTo(26);
+    expect(estimate.taxableBase).toBeCloseTo(4);
+  });
+});
@@ -0,0 +1,211 @@
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths } from 'date-fns';
+import { DayCalculation, PeriodSummary } from './calculations';
+import { toDateStr } from './fiscal';
+import { accountKey } from './accounts';
+
+const NET_PAY_STORAGE_KEY = 'app-net-pay';
+
+// Daily amounts of dietas exempt from IRPF (Reglamento del IRPF, art. 9),
+// from the given date until a later entry replaces them. Overnight limits
+// apply to days with a pernocta; international ones to days with dieta
+// internacional. perKm is the exempt kilometraje per kilometre.
+export interface DietaExemptionLimits {
+  validFrom: string;
+  domestic: number;
+  domesticOvernight: number;
+  international: number;
+  internationalOvernight: number;
+  perKm: number;
+}
+
+export interface NetPaySettings {
+  // Gross monthly salary before allowances.
+  baseSalary: number;
+  // Pagas extra of one base salary each, prorated into every month.
+  extraPayments: number;
+  irpfPercent: number;
+  socialSecurityPercent: number;
+  exemptionLimits: DietaExemptionLimits[];
+}
+
+export const DEFAULT_EXEMPTION_LIMITS: DietaExemptionLimits = {
+  validFrom: '2009-01-01',
+  domestic: 26.67,
+  domesticOvernight: 53.34,
+  international: 48.08,
+  internationalOvernight: 91.35,
+  perKm: 0.19,
+};
+
+// Orden HFP/792/2023 raised the exempt kilometraje to 0,26 €/km from 1 July 2023.
+export const EXEMPTION_LIMITS_2023: DietaExemptionLimits = {
+  ...DEFAULT_EXEMPTION_LIMITS,
+  validFrom: '2023-07-01',
+  perKm: 0.26,
+};
+
+// 4,70 % contingencias comunes + 1,55 % desempleo + 0,10 % formación
+// profesional + 0,13 % MEI, the employee's share in 2025.
+export const DEFAULT_NET_PAY_SETTINGS: NetPaySettings = {
+  baseSalary: 0,
+  extraPayments: 2,
+  irpfPercent: 0,
+  socialSecurityPercent: 6.48,
+  exemptionLimits: [DEFAULT_EXEMPTION_LIMITS, EXEMPTION_LIMITS_2023],
+};
+
+export interface DietaSplit {
+  exempt: number;
+  taxable: number;
+}
+
+export interface NetPayEstimate {
+  baseSalary: number;
+  exemptDietas: number;
+  taxableDietas: number;
+  exemptKilometraje: number;
+  // Everything the payslip pays: salary, dietas and the other allowances.
+  grossPay: number;
+  // What IRPF and Social Security are computed on: grossPay less the exempt dietas.
+  taxableBase: number;
+  socialSecurity: number;
+  irpf: number;
+  netPay: number;
+}
+
+export const EMPTY_NET_PAY_ESTIMATE: NetPayEstimate = {
+  baseSalary: 0,
+  exemptDietas: 0,
+  taxableDietas: 0,
+  exemptKilometraje: 0,
+  grossPay: 0,
+  taxableBase: 0,
+  socialSecurity: 0,
+  irpf: 0,
+  netPay: 0,
+};
+
+export const sortExemptionLimits = (limits: DietaExemptionLimits[]): DietaExemptionLimits[] =>
+  [...limits].sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+
+// The latest limits in force on the date; dates before the first entry use it.
+export const getExemptionLimits = (dateStr: string, settings: NetPaySettings): DietaExemptionLimits => {
+  const sorted = sortExemptionLimits(settings.exemptionLimits);
+  if (sorted.length === 0) return DEFAULT_EXEMPTION_LIMITS;
+
+  let limits = sorted[0];
+  sorted.forEach(candidate => {
+    if (candidate.validFrom <= dateStr) limits = candidate;
+  });
+  return limits;
+};
+
+// Every day's dietas (normal, finde, internacional and pernocta) are exempt up
+// to that day's legal limit; the excess is taxed like salary.
+export const splitDietas = (days: DayCalculation[], settings: NetPaySettings): DietaSplit =>
+  days.reduce((split, day) => {
+    const dietas = day.dietaNormalMoney + day.dietaFindeMoney + day.dietaIntMoney + day.pernoctaMoney;
+    const limits = getExemptionLimits(toDateStr(day.date), settings);
+    const overnight = day.pernocta > 0;
+    const limit = day.dietaInt > 0
+      ? (overnight ? limits.internationalOvernight : limits.international)
+      : (overnight ? limits.domesticOvernight : limits.domestic);
+    const exempt = Math.min(dietas, limit);
+
+    return { exempt: split.exempt + exempt, taxable: split.taxable + dietas - exempt };
+  }, { exempt: 0, taxable: 0 });
+
+// Kilometraje is exempt up to the per-kilometre limit in force on the day.
+export const getExemptKilometraje = (days: DayCalculation[], settings: NetPaySettings): number =>
+  days.reduce((total, day) =>
+    total + Math.min(day.kilometrajeMoney, day.km * getExemptionLimits(toDateStr(day.date), settings).perKm), 0);
+
+// Whole months (such as a 26th-to-25th payroll period or a fiscal year of
+// them) earn the monthly salary; any other range a daily share of it.
+export const getBaseSalaryForRange = (startDate: Date, endDate: Date, settings: NetPaySettings): number => {
+  const monthlySalary = settings.baseSalary * (12 + settings.extraPayments) / 12;
+  const afterEnd = addDays(endDate, 1);
+  const months = differenceInCalendarMonths(afterEnd, startDate);
+
+  if (months > 0 && toDateStr(addMonths(startDate, months)) === toDateStr(afterEnd)) {
+    return monthlySalary * months;
+  }
+  return monthlySalary * 12 / 365 * (differenceInCalendarDays(endDate, startDate) + 1);
+};
+
+// Propinas come from customers, not from the payslip, so they are left out.
+export const estimateNetPay = (
+  days: DayCalculation[],
+  summary: PeriodSummary,
+  baseSalary: number,
+  settings: NetPaySettings,
+): NetPayEstimate => {
+  const dietas = splitDietas(days, settings);
+  const exemptKilometraje = getExemptKilometraje(days, settings);
+  const otherPay = summary.nocturnidadMoney + summary.extraMoney + summary.statusMoney + summary.overtimeMoney
+    + summary.kilometrajeMoney;
+  const grossPay = baseSalary + dietas.exempt + dietas.taxable + otherPay;
+  const taxableBase = grossPay - dietas.exempt - exemptKilometraje;
+  const socialSecurity = taxableBase * settings.socialSecurityPercent / 100;
+  const irpf = taxableBase * settings.irpfPercent / 100;
+
+  return {
+    baseSalary,
+    exemptDietas: dietas.exempt,
+    taxableDietas: dietas.taxable,
+    exemptKilometraje,
+    grossPay,
+    taxableBase,
+    socialSecurity,
+    irpf,
+    netPay: grossPay - socialSecurity - irpf,
+  };
+};
+
+// Limits were first saved by year, from 1 January, and without perKm before
+// kilometraje was tracked.
+type StoredExemptionLimits = Partial<DietaExemptionLimits> & { year?: number };
+type StoredNetPaySettings = Partial<Omit<NetPaySettings, 'exemptionLimits'>> & {
+  exemptionLimits?: StoredExemptionLimits[];
+};
+
+// Limits without perKm get the rate in force on their date, and an entry for
+// the July 2023 rise is added with the dietas in force then.
+export const withNetPayDefaults = (parsed: StoredNetPaySettings): NetPaySettings => {
+  const stored = parsed.exemptionLimits ?? [];
+  const settings = { ...DEFAULT_NET_PAY_SETTINGS, ...parsed };
+  if (stored.length === 0) {
+    return { ...settings, exemptionLimits: DEFAULT_NET_PAY_SETTINGS.exemptionLimits };
+  }
+
+  const limits = stored.map(({ year, ...entry }) => {
+    const validFrom = entry.validFrom ?? `${year ?? 2009}-01-01`;
+    const perKm = validFrom >= EXEMPTION_LIMITS_2023.validFrom ? EXEMPTION_LIMITS_2023.perKm : DEFAULT_EXEMPTION_LIMITS.perKm;
+    return { ...DEFAULT_EXEMPTION_LIMITS, ...entry, validFrom, perKm: entry.perKm ?? perKm };
+  });
+  const missingPerKm = stored.every(entry => entry.perKm === undefined);
+  if (missingPerKm && !limits.some(entry => entry.validFrom === EXEMPTION_LIMITS_2023.validFrom)) {
+    const inForce = getExemptionLimits(EXEMPTION_LIMITS_2023.validFrom, { ...settings, exemptionLimits: limits });
+    limits.push({ ...inForce, validFrom: EXEMPTION_LIMITS_2023.validFrom, perKm: EXEMPTION_LIMITS_2023.perKm });
+  }
+
+  return { ...settings, exemptionLimits: sortExemptionLimits(limits) };
+};
+
+export const loadNetPaySettings = (accountId: string): NetPaySettings => {
+  const stored = localStorage.getItem(accountKey(NET_PAY_STORAGE_KEY, accountId));
+  if (!stored) return DEFAULT_NET_PAY_SETTINGS;
+
+  try {
+    return withNetPayDefaults(JSON.parse(stored));
+  } catch {
+    return DEFAULT_NET_PAY_SETTINGS;
+  }
+};
+
+export const saveNetPaySettings = (accountId: string, settings: NetPaySettings) => {
+  localStorage.setItem(accountKey(NET_PAY_STORAGE_KEY, accountId), JSON.stringify({
+    ...settings,
+    exemptionLimits: sortExemptionLimits(settings.exemptionLimits),
+  }));
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { CalculationContext } from './calculations';
+import { DEFAULT_DAY_STATUS_SETTINGS } from './dayStatus';
+import { DEFAULT_PERIOD_DEFINITION, toDateStr } from './fiscal';
+import { DEFAULT_HOLIDAY_SETTINGS } from './holidays';
+import { calculateRangeDays, getOvertimeContextRange } from './overtime';
+import { DEFAULT_RATE_TABLE } from './rates';
+import { TimesheetData, createEmptyDay } from './types';
+
+const contextWith = (limits: { weeklyHoursLimit: number; periodHoursLimit: number }): CalculationContext => ({
+  rateTables: [{ ...DEFAULT_RATE_TABLE, ...limits, overtimeHourly: 10 }],
+  holidays: DEFAULT_HOLIDAY_SETTINGS,
+  statuses: DEFAULT_DAY_STATUS_SETTINGS,
+  periods: [DEFAULT_PERIOD_DEFINITION],
+});
+
+// Every listed day worked from 08:00 for the given number of hours.
+const workedDays = (hoursByDate: { [date: string]: number }): TimesheetData => {
+  const data: TimesheetData = {};
+  Object.keys(hoursByDate).forEach(date => {
+    const endHour = String(8 + hoursByDate[date]).padStart(2, '0');
+    data[date] = { ...createEmptyDay(date), intervals: [{ startTime: '08:00', endTime: `${endHour}:00` }] };
+  });
+  return data;
+};
+
+describe('weekly overtime', () => {
+  const context = contextWith({ weeklyHoursLimit: 40, periodHoursLimit: 0 });
+
+  it('pays the hours above the weekly limit on the day the limit is crossed', () => {
+    const data = workedDays({ '2024-03-04': 10, '2024-03-05': 10, '2024-03-06': 10, '2024-03-07': 8, '2024-03-08': 6 });
+    const days = calculateRangeDays(data, new Date(2024, 2, 4), new Date(2024, 2, 8), context);
+
+    expect(days.map(day => day.overtimeHours)).toEqual([0, 0, 0, 0, 4]);
+    expect(days[4].overtimeMoney).toBe(40);
+  });
+
+  it('splits a week shared by two payroll periods without counting it twice', () => {
+    // Monday 2024-03-25 closes the March period; the rest of the week opens April.
+    const data = workedDays({ '2024-03-25': 12, '2024-03-26': 12, '2024-03-27': 12, '2024-03-28': 12 });
+    const march = calculateRangeDays(data, new Date(2024, 1, 26), new Date(2024, 2, 25), context);
+    const april = calculateRangeDays(data, new Date(2024, 2, 26), new Date(2024, 3, 25), context);
+
+    expect(march.reduce((total, day) => total + day.overtimeHours, 0)).toBe(0);
+    expect(april.reduce((total, day) => total + day.overtimeHours, 0)).toBe(8);
+  });
+
+  it('counts no overtime until a limit is set', () => {
+    const data = workedDays({ '2024-03-04': 12, '2024-03-05': 12, '2024-03-06': 12, '2024-03-07': 12 });
+    const days = calculateRangeDays(data, new Date(2024, 2, 4), new Date(2024, 2, 7), contextWith(DEFAULT_RATE_TABLE));
+
+    expect(days.map(day => day.overtimeHours)).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe('period overtime', () => {
+  it('applies the period cap to the ordinary hours left after weekly overtime', () => {
+    const context = contextWith({ weeklyHoursLimit: 40, periodHoursLimit: 50 });
+    const data = workedDays({
+      '2024-03-04': 10, '2024-03-05': 10, '2024-03-06': 10, '2024-03-07': 10, '2024-03-08': 5,
+      '2024-03-11': 10, '2024-03-12': 5,
+    });
+    const days = calculateRangeDays(data, new Date(2024, 1, 26), new Date(2024, 2, 25), context);
+
+    // Week one: 45 h, 5 h weekly overtime and 40 ordinary. Week two: 15 ordinary
+    // hours, of which the last 5 exceed the 50 h period cap.
+    expect(days.reduce((total, day) => total + day.overtimeHours, 0)).toBe(10);
+    expect(days.find(day => day.dateStr === '2024-03-12')?.overtimeHours).toBe(5);
+  });
+});
+
+describe('getOvertimeContextRange', () => {
+  it('widens the range to whole weeks and payroll periods', () => {
+    const range = getOvertimeContextRange(new Date(2024, 2, 1), new Date(2024, 2, 27), contextWith({ weeklyHoursLimit: 40, periodHoursLimit: 0 }));
+
+    expect(toDateStr(range.startDate)).toBe('2024-02-26');
+    expect(toDateStr(range.endDate)).toBe('2024-04-25');
+  });
+});
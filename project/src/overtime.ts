@@ -0,0 +1,64 @@
+import { endOfWeek, startOfWeek } from 'date-fns';
+import { CalculationContext, DayCalculation, calculateDays } from './calculations';
+import { getFiscalPeriod, isDateStrInRange, pickDaysInRange, toDateStr } from './fiscal';
+import { TimesheetData } from './types';
+
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+// Hours of `hours` that land above `limit`, given `before` hours already worked
+// against the same limit. A limit of 0 means there is none.
+const hoursAboveLimit = (before: number, hours: number, limit: number): number =>
+  limit > 0 ? Math.max(0, before + hours - Math.max(before, limit)) : 0;
+
+// Overtime is attributed to the day on which the running total crosses the
+// limit, so a week shared by two payroll periods pays each hour exactly once.
+// Weekly overtime is taken first; the period cap then applies to the remaining
+// ordinary hours. `days` must be sorted and hold every day of the weeks and
+// periods involved; use getOvertimeContextRange to know which.
+export const applyOvertime = (days: DayCalculation[], context: CalculationContext): DayCalculation[] => {
+  const weekTotals: { [weekKey: string]: number } = {};
+  const periodTotals: { [periodKey: string]: number } = {};
+
+  return days.map(day => {
+    const weekKey = toDateStr(startOfWeek(day.date, WEEK_OPTIONS));
+    const weekBefore = weekTotals[weekKey] ?? 0;
+    const weeklyOvertime = hoursAboveLimit(weekBefore, day.hours, day.rates.weeklyHoursLimit);
+    weekTotals[weekKey] = weekBefore + day.hours;
+
+    const ordinaryHours = day.hours - weeklyOvertime;
+    const periodKey = toDateStr(getFiscalPeriod(day.date, context.periods).startDate);
+    const periodBefore = periodTotals[periodKey] ?? 0;
+    const periodOvertime = hoursAboveLimit(periodBefore, ordinaryHours, day.rates.periodHoursLimit);
+    periodTotals[periodKey] = periodBefore + ordinaryHours;
+
+    const overtimeHours = weeklyOvertime + periodOvertime;
+    return { ...day, overtimeHours, overtimeMoney: overtimeHours * day.rates.overtimeHourly };
+  });
+};
+
+// The dates whose hours decide the overtime of [startDate, endDate]: the whole
+// weeks and payroll periods the range touches.
+export const getOvertimeContextRange = (startDate: Date, endDate: Date, context: CalculationContext) => {
+  const firstPeriod = getFiscalPeriod(startDate, context.periods);
+  const lastPeriod = getFiscalPeriod(endDate, context.periods);
+  const weekStart = startOfWeek(startDate, WEEK_OPTIONS);
+  const weekEnd = endOfWeek(endDate, WEEK_OPTIONS);
+
+  return {
+    startDate: weekStart < firstPeriod.startDate ? weekStart : firstPeriod.startDate,
+    endDate: weekEnd > lastPeriod.endDate ? weekEnd : lastPeriod.endDate,
+  };
+};
+
+// Calculates the days of the range in `data`, with overtime, reading the
+// surrounding weeks and periods from `data` too.
+export const calculateRangeDays = (
+  data: TimesheetData,
+  startDate: Date,
+  endDate: Date,
+  context: CalculationContext,
+): DayCalculation[] => {
+  const contextRange = getOvertimeContextRange(startDate, endDate, context);
+  const days = calculateDays(pickDaysInRange(data, contextRange.startDate, contextRange.endDate), context);
+  return applyOvertime(days, context).filter(day => isDateStrInRange(day.dateStr, startDate, endDate));
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_SUMMARY } from './calculations';
+import { EMPTY_PAYSLIP_AMOUNTS, getExpectedAmounts, getPayslipBalance, getTotalDifference, reconcile } from './payslip';
+
+describe('payslip reconciliation', () => {
+  const expected = getExpectedAmounts({
+    ...EMPTY_SUMMARY,
+    totalDietas: 300,
+    nocturnidadMoney: 40,
+    dietaIntMoney: 0,
+    extraMoney: 25,
+    pernoctaMoney: 60,
+    kilometrajeMoney: 18,
+    overtimeMoney: 30,
+  });
+
+  it('takes the expected amounts from the period summary', () => {
+    expect(expected).toEqual({
+      dietas: 300, nocturnidad: 40, dietaInt: 0, extra: 25, pernocta: 60, kilometraje: 18, overtime: 30,
+    });
+  });
+
+  it('reports what is still owed per concept and in total', () => {
+    const lines = reconcile(expected, { ...expected, dietas: 280, pernocta: 70 });
+
+    expect(lines.find(line => line.concept === 'dietas')?.difference).toBe(20);
+    expect(lines.find(line => line.concept === 'pernocta')?.difference).toBe(-10);
+    expect(getTotalDifference(lines)).toBe(10);
+    expect(getPayslipBalance(getTotalDifference(lines))).toBe('underpaid');
+  });
+
+  it('treats an overpaid payslip and rounding noise apart', () => {
+    expect(getPayslipBalance(getTotalDifference(reconcile(EMPTY_PAYSLIP_AMOUNTS, expected)))).toBe('overpaid');
+    expect(getPayslipBalance(0.001)).toBe('ok');
+  });
+});
@@ -0,0 +1,91 @@
+import { PeriodSummary } from './calculations';
+
+export type PayslipConcept = 'dietas' | 'nocturnidad' | 'dietaInt' | 'extra' | 'pernocta' | 'kilometraje' | 'overtime';
+
+export type PayslipAmounts = { [concept in PayslipConcept]: number };
+
+export const PAYSLIP_CONCEPTS: Array<{ concept: PayslipConcept; label: string }> = [
+  { concept: 'dietas', label: 'Dietas' },
+  { concept: 'nocturnidad', label: 'Nocturnidad' },
+  { concept: 'dietaInt', label: 'Dieta Internacional' },
+  { concept: 'extra', label: 'Extras' },
+  { concept: 'pernocta', label: 'Pernoctas' },
+  { concept: 'kilometraje', label: 'Kilometraje' },
+  { concept: 'overtime', label: 'Horas Extra' },
+];
+
+export const EMPTY_PAYSLIP_AMOUNTS: PayslipAmounts = {
+  dietas: 0,
+  nocturnidad: 0,
+  dietaInt: 0,
+  extra: 0,
+  pernocta: 0,
+  kilometraje: 0,
+  overtime: 0,
+};
+
+// What the payslip was checked against is kept next to what it paid, so the
+// history still tells what was missing even after the timesheet is edited.
+export interface PayslipRecord {
+  periodKey: string;
+  label: string;
+  startDate: string;
+  endDate: string;
+  paid: PayslipAmounts;
+  expected: PayslipAmounts;
+  updatedAt: number;
+}
+
+// Keyed by the first day (yyyy-MM-dd) of the payroll period.
+export interface PayslipMap {
+  [periodKey: string]: PayslipRecord;
+}
+
+export interface ReconciliationLine {
+  concept: PayslipConcept;
+  label: string;
+  expected: number;
+  paid: number;
+  difference: number;
+}
+
+export type PayslipBalance = 'ok' | 'underpaid' | 'overpaid';
+
+// Differences below half a cent are rounding, not a payroll error.
+const TOLERANCE = 0.005;
+
+export const getExpectedAmounts = (summary: PeriodSummary): PayslipAmounts => ({
+  dietas: summary.totalDietas,
+  nocturnidad: summary.nocturnidadMoney,
+  dietaInt: summary.dietaIntMoney,
+  extra: summary.extraMoney,
+  pernocta: summary.pernoctaMoney,
+  kilometraje: summary.kilometrajeMoney,
+  overtime: summary.overtimeMoney,
+});
+
+// A positive difference is money the company still owes. Payslips saved
+// before a concept existed count it as 0.
+export const reconcile = (expected: PayslipAmounts, paid: PayslipAmounts): ReconciliationLine[] =>
+  PAYSLIP_CONCEPTS.map(({ concept, label }) => ({
+    concept,
+    label,
+    expected: expected[concept] ?? 0,
+    paid: paid[concept] ?? 0,
+    difference: (expected[concept] ?? 0) - (paid[concept] ?? 0),
+  }));
+
+export const getTotalDifference = (lines: ReconciliationLine[]): number =>
+  lines.reduce((total, line) => total + line.difference, 0);
+
+export const getPayslipBalance = (difference: number): PayslipBalance => {
+  if (difference > TOLERANCE) return 'underpaid';
+  if (difference < -TOLERANCE) return 'overpaid';
+  return 'ok';
+};
+
+export const BALANCE_LABELS: { [balance in PayslipBalance]: string } = {
+  ok: 'Cuadra',
+  underpaid: 'Falta por cobrar',
+  overpaid: 'Cobrado de más',
+};
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { EMPTY_PROFILE, describeProfile, isValidDocumentId, toFileNamePart } from './profile';
+
+describe('isValidDocumentId', () => {
+  it('checks the letter of a DNI', () => {
+    expect(isValidDocumentId('12345678Z')).toBe(true);
+    expect(isValidDocumentId('12345678-z')).toBe(true);
+    expect(isValidDocumentId('12345678A')).toBe(false);
+  });
+
+  it('checks the letter of an NIE', () => {
+    expect(isValidDocumentId('X1234567L')).toBe(true);
+    expect(isValidDocumentId('Y1234567X')).toBe(true);
+    expect(isValidDocumentId('X1234567A')).toBe(false);
+    expect(isValidDocumentId('X12345678L')).toBe(false);
+  });
+});
+
+describe('describeProfile', () => {
+  it('prints only the filled in fields', () => {
+    expect(describeProfile({ ...EMPTY_PROFILE, driverName: 'Ana Pérez', companyName: 'Transportes Sur', vehiclePlate: '1234ABC' })).toEqual([
+      'Ana Pérez',
+      'Transportes Sur · Matrícula: 1234ABC',
+    ]);
+    expect(describeProfile(EMPTY_PROFILE)).toEqual([]);
+  });
+});
+
+describe('toFileNamePart', () => {
+  it('keeps only plain letters and digits', () => {
+    expect(toFileNamePart(' José Muñoz  Ávila ')).toBe('Jose_Munoz_Avila');
+  });
+});
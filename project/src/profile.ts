@@ -0,0 +1,64 @@
+// Who the reports are about. It holds personal data (the DNI/NIE), so it is
+// kept encrypted with the timesheet rather than in plain localStorage.
+export interface DriverProfile {
+  driverName: string;
+  documentId: string;
+  employeeNumber: string;
+  companyName: string;
+  companyCif: string;
+  vehiclePlate: string;
+}
+
+export const EMPTY_PROFILE: DriverProfile = {
+  driverName: '',
+  documentId: '',
+  employeeNumber: '',
+  companyName: '',
+  companyCif: '',
+  vehiclePlate: '',
+};
+
+const DNI_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+const NIE_PREFIXES: { [prefix: string]: string } = { X: '0', Y: '1', Z: '2' };
+
+export const normalizeDocumentId = (value: string): string =>
+  value.toUpperCase().replace(/[\s-]/g, '');
+
+// A DNI is eight digits and a check letter; an NIE swaps the first digit for
+// X, Y or Z, which count as 0, 1 and 2 for the check letter.
+export const isValidDocumentId = (value: string): boolean => {
+  const documentId = normalizeDocumentId(value);
+  const match = /^([XYZ]?)(\d{7,8})([A-Z])$/.exec(documentId);
+  if (!match) return false;
+
+  const [, prefix, digits, letter] = match;
+  if (prefix ? digits.length !== 7 : digits.length !== 8) return false;
+
+  const number = parseInt((prefix ? NIE_PREFIXES[prefix] : '') + digits, 10);
+  return DNI_LETTERS[number % 23] === letter;
+};
+
+// The header lines printed on reports, skipping whatever is not filled in.
+export const describeProfile = (profile: DriverProfile): string[] => {
+  const driver = [
+    profile.driverName,
+    profile.documentId && `DNI/NIE: ${profile.documentId}`,
+    profile.employeeNumber && `Nº empleado: ${profile.employeeNumber}`,
+  ].filter(Boolean).join(' · ');
+  const company = [
+    profile.companyName,
+    profile.companyCif && `CIF: ${profile.companyCif}`,
+    profile.vehiclePlate && `Matrícula: ${profile.vehiclePlate}`,
+  ].filter(Boolean).join(' · ');
+
+  return [driver, company].filter(Boolean);
+};
+
+// The driver's name as it can go into a file name: no accents, spaces or
+// symbols.
+export const toFileNamePart = (value: string): string =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
@@ -0,0 +1,89 @@
+import { accountKey } from './accounts';
+
+const RATES_STORAGE_KEY = 'app-rates';
+
+// 'tiered' pays one flat bonus per day depending on how many night hours were
+// worked; 'hourly' pays every night hour at nocturnidadHourly.
+export type NocturnidadMode = 'tiered' | 'hourly';
+
+export interface RateTable {
+  id: string;
+  validFrom: string;
+  dietaNormal: number;
+  dietaFinde: number;
+  dietaInt: number;
+  extra: number;
+  pernocta: number;
+  kilometraje: number;
+  nocturnidadMode: NocturnidadMode;
+  nightStart: string;
+  nightEnd: string;
+  nocturnidadLow: number;
+  nocturnidadHigh: number;
+  nocturnidadHighHours: number;
+  nocturnidadHourly: number;
+  weeklyHoursLimit: number;
+  periodHoursLimit: number;
+  overtimeHourly: number;
+}
+
+export const DEFAULT_RATE_TABLE: RateTable = {
+  id: 'default',
+  validFrom: '2000-01-01',
+  dietaNormal: 15,
+  dietaFinde: 20,
+  dietaInt: 25,
+  extra: 120,
+  pernocta: 40,
+  kilometraje: 0,
+  nocturnidadMode: 'tiered',
+  nightStart: '22:00',
+  nightEnd: '06:00',
+  nocturnidadLow: 20,
+  nocturnidadHigh: 40,
+  nocturnidadHighHours: 4,
+  nocturnidadHourly: 5,
+  weeklyHoursLimit: 0,
+  periodHoursLimit: 0,
+  overtimeHourly: 0,
+};
+
+export const sortRateTables = (tables: RateTable[]): RateTable[] =>
+  [...tables].sort((a, b) => a.validFrom.localeCompare(b.validFrom));
+
+// Tables saved before a field existed pick up its default value.
+export const withRateDefaults = (tables: RateTable[]): RateTable[] =>
+  sortRateTables(tables.map(table => ({ ...DEFAULT_RATE_TABLE, ...table })));
+
+export const loadRateTables = (accountId: string): RateTable[] => {
+  const stored = localStorage.getItem(accountKey(RATES_STORAGE_KEY, accountId));
+  if (!stored) return [DEFAULT_RATE_TABLE];
+
+  try {
+    const parsed = JSON.parse(stored) as RateTable[];
+    if (!Array.isArray(parsed) || parsed.length === 0) return [DEFAULT_RATE_TABLE];
+    return withRateDefaults(parsed);
+  } catch {
+    return [DEFAULT_RATE_TABLE];
+  }
+};
+
+export const saveRateTables = (accountId: string, tables: RateTable[]) => {
+  localStorage.setItem(accountKey(RATES_STORAGE_KEY, accountId), JSON.stringify(sortRateTables(tables)));
+};
+
+// Picks the table in force on the given day (yyyy-MM-dd). Days older than every
+// table fall back to the oldest one so historic records always get a rate.
+export const getRatesForDate = (tables: RateTable[], dateStr: string): RateTable => {
+  const sorted = sortRateTables(tables);
+  if (sorted.length === 0) return DEFAULT_RATE_TABLE;
+
+  let applicable = sorted[0];
+  sorted.forEach(table => {
+    if (table.validFrom <= dateStr) {
+      applicable = table;
+    }
+  });
+
+  return applicable;
+};
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_REMINDER_SETTINGS, ReminderSettings, getDueReminders } from './reminders';
+import { DEFAULT_PERIOD_DEFINITION, getFiscalPeriod } from './fiscal';
+import { createEmptyDay } from './types';
+
+const settings: ReminderSettings = { ...DEFAULT_REMINDER_SETTINGS, emptyDayEnabled: true, periodEndEnabled: true };
+
+const due = (now: Date, day = createEmptyDay('2024-03-25'), log = {}) =>
+  getDueReminders(settings, now, day, getFiscalPeriod(now, [DEFAULT_PERIOD_DEFINITION]), log).map(reminder => reminder.kind);
+
+describe('getDueReminders', () => {
+  it('reminds about an empty day from the chosen time on', () => {
+    expect(due(new Date(2024, 2, 12, 21, 59), createEmptyDay('2024-03-12'))).toEqual([]);
+    expect(due(new Date(2024, 2, 12, 22, 0), createEmptyDay('2024-03-12'))).toEqual(['emptyDay']);
+  });
+
+  it('skips days with times or a non-worked status', () => {
+    const worked = { ...createEmptyDay('2024-03-12'), intervals: [{ startTime: '08:00', endTime: '' }] };
+    const vacation = { ...createEmptyDay('2024-03-12'), status: 'vacation' as const };
+
+    expect(due(new Date(2024, 2, 12, 23, 0), worked)).toEqual([]);
+    expect(due(new Date(2024, 2, 12, 23, 0), vacation)).toEqual([]);
+  });
+
+  it('reminds on the last day of the period', () => {
+    const worked = { ...createEmptyDay('2024-03-25'), intervals: [{ startTime: '08:00', endTime: '16:00' }] };
+
+    expect(due(new Date(2024, 2, 25, 9, 0), worked)).toEqual(['periodEnd']);
+    expect(due(new Date(2024, 2, 24, 9, 0), worked)).toEqual([]);
+  });
+
+  it('shows each reminder once a day', () => {
+    expect(due(new Date(2024, 2, 25, 22, 30), undefined, { emptyDay: '2024-03-25', periodEnd: '2024-03-25' })).toEqual([]);
+    expect(due(new Date(2024, 2, 25, 22, 30), undefined, { emptyDay: '2024-03-24' })).toEqual(['emptyDay', 'periodEnd']);
+  });
+});
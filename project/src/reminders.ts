@@ -0,0 +1,113 @@
+import { format } from 'date-fns';
+import { accountKey } from './accounts';
+import { FiscalDateRange, toDateStr } from './fiscal';
+import { DayData } from './types';
+
+const REMINDERS_STORAGE_KEY = 'app-reminders';
+const REMINDER_LOG_STORAGE_KEY = 'app-reminder-log';
+
+export interface ReminderSettings {
+  emptyDayEnabled: boolean;
+  emptyDayTime: string;
+  periodEndEnabled: boolean;
+  periodEndTime: string;
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  emptyDayEnabled: false,
+  emptyDayTime: '22:00',
+  periodEndEnabled: false,
+  periodEndTime: '09:00',
+};
+
+export type ReminderKind = 'emptyDay' | 'periodEnd';
+
+export interface Reminder {
+  kind: ReminderKind;
+  title: string;
+  body: string;
+}
+
+// The day each reminder was last shown, so none is shown twice in a day.
+export type ReminderLog = { [kind in ReminderKind]?: string };
+
+export const loadReminderSettings = (accountId: string): ReminderSettings => {
+  const stored = localStorage.getItem(accountKey(REMINDERS_STORAGE_KEY, accountId));
+  if (!stored) return DEFAULT_REMINDER_SETTINGS;
+
+  try {
+    return { ...DEFAULT_REMINDER_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_REMINDER_SETTINGS;
+  }
+};
+
+export const saveReminderSettings = (accountId: string, settings: ReminderSettings) => {
+  localStorage.setItem(accountKey(REMINDERS_STORAGE_KEY, accountId), JSON.stringify(settings));
+};
+
+export const loadReminderLog = (accountId: string): ReminderLog => {
+  const stored = localStorage.getItem(accountKey(REMINDER_LOG_STORAGE_KEY, accountId));
+  if (!stored) return {};
+
+  try {
+    return JSON.parse(stored) as ReminderLog;
+  } catch {
+    return {};
+  }
+};
+
+export const saveReminderLog = (accountId: string, log: ReminderLog) => {
+  localStorage.setItem(accountKey(REMINDER_LOG_STORAGE_KEY, accountId), JSON.stringify(log));
+};
+
+// A day marked as holidays, sick leave, etc. needs no times.
+const isMissingTimes = (day: DayData): boolean =>
+  day.status === 'worked' && !day.intervals.some(interval => interval.startTime || interval.endTime);
+
+// The reminders to show at `now`: today's row still empty from the chosen
+// time on, and the last day of the payroll period from its chosen time on.
+// One missed while the app was closed is shown the next time it runs that day.
+export const getDueReminders = (
+  settings: ReminderSettings,
+  now: Date,
+  today: DayData,
+  period: FiscalDateRange,
+  log: ReminderLog,
+): Reminder[] => {
+  const todayStr = toDateStr(now);
+  const time = format(now, 'HH:mm');
+  const due: Reminder[] = [];
+
+  if (settings.emptyDayEnabled && time >= settings.emptyDayTime && log.emptyDay !== todayStr && isMissingTimes(today)) {
+    due.push({
+      kind: 'emptyDay',
+      title: 'Jornada sin registrar',
+      body: 'Hoy todavía no tiene horas. Apúntalas antes de que se te olviden.',
+    });
+  }
+
+  if (settings.periodEndEnabled && time >= settings.periodEndTime && log.periodEnd !== todayStr
+    && toDateStr(period.endDate) === todayStr) {
+    due.push({
+      kind: 'periodEnd',
+      title: 'Hoy se cierra el periodo',
+      body: `El periodo de ${period.label} termina hoy. Revisa horas, dietas y gastos antes de la nómina.`,
+    });
+  }
+
+  return due;
+};
+
+// Shown through the service worker where there is one, as some mobile
+// browsers only allow notifications from it.
+export const showReminder = async (reminder: Reminder) => {
+  const options = { body: reminder.body, icon: '/icon.svg', tag: reminder.kind };
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+
+  if (registration) {
+    await registration.showNotification(reminder.title, options);
+  } else {
+    new Notification(reminder.title, options);
+  }
+};
@@ -0,0 +1,327 @@
+import { DayData, TimesheetData, MonthMap } from './types';
+import { encryptJson, decryptJson, isEncryptedPayload, deriveDataKey, generateSalt } from './encryption';
+import { DEFAULT_ACCOUNT, accountKey } from './accounts';
+
+// Version of the DayData shape inside each stored month. Bump it and add an
+// entry to MONTH_MIGRATIONS whenever DayData gains or changes fields.
+export const SCHEMA_VERSION = 5;
+
+const DB_NAME = 'driver-timesheet';
+const DB_VERSION = 2;
+const MONTHS_STORE = 'months';
+const META_STORE = 'meta';
+// Receipt photos live apart from the expense list so it stays small to read.
+const RECEIPTS_STORE = 'receipts';
+const DATA_SALT_META_KEY = 'dataSalt';
+// Meta entries holding encrypted JSON; re-encrypted together with the months.
+export const ENCRYPTED_META_KEYS = ['payslips', 'profile', 'expenses'] as const;
+export type EncryptedMetaKey = typeof ENCRYPTED_META_KEYS[number];
+const LEGACY_DATA_SALT_KEY = 'app-data-salt';
+const LEGACY_MONTH_KEY = /^timesheet-(\d{4}-\d{2})$/;
+
+export interface MonthRecord {
+  monthKey: string;
+  schemaVersion: number;
+  payload: string;
+  updatedAt: number;
+}
+
+export interface StorageWrite {
+  months: MonthRecord[];
+  deleteMonthKeys?: string[];
+  meta?: { [name: string]: string };
+  receipts?: { [receiptId: string]: string };
+  deleteReceiptIds?: string[];
+}
+
+export interface StorageBackend {
+  getMonth(monthKey: string): Promise<MonthRecord | undefined>;
+  listMonthKeys(): Promise<string[]>;
+  getMeta(name: string): Promise<string | undefined>;
+  getReceipt(receiptId: string): Promise<string | undefined>;
+  listReceiptIds(): Promise<string[]>;
+  write(changes: StorageWrite): Promise<void>;
+}
+
+export interface TimesheetStore {
+  readMonth(monthKey: string): Promise<TimesheetData | null>;
+  readAllMonths(): Promise<MonthMap>;
+  writeMonths(months: MonthMap): Promise<void>;
+  replaceAllMonths(months: MonthMap): Promise<void>;
+  listMonthKeys(): Promise<string[]>;
+  readEncryptedMeta<T>(name: EncryptedMetaKey): Promise<T | null>;
+  writeEncryptedMeta<T>(name: EncryptedMetaKey, value: T): Promise<void>;
+  readReceipt<T>(receiptId: string): Promise<T | null>;
+  writeReceipts<T>(receipts: { [receiptId: string]: T }, deleteReceiptIds: string[]): Promise<void>;
+  rekey(newPin: string): Promise<TimesheetStore>;
+}
+
+// A stored day can be in any older DayData shape until it is upgraded: every
+// field some version had, none of them sure to be there. Schema 0 and 1 kept a
+// single startTime/endTime pair instead of the intervals.
+type StoredDay = Partial<DayData & { startTime: string; endTime: string }>;
+type StoredMonth = { [date: string]: StoredDay };
+type MonthMigration = (data: StoredMonth) => StoredMonth;
+
+const mapDays = (data: StoredMonth, upgradeDay: (day: StoredDay, dateStr: string) => StoredDay): StoredMonth => {
+  const upgraded: StoredMonth = {};
+  Object.keys(data).forEach(dateStr => {
+    upgraded[dateStr] = upgradeDay(data[dateStr], dateStr);
+  });
+  return upgraded;
+};
+
+// Keyed by the version a month is upgraded from. Version 0 is a month copied
+// from the old unversioned `timesheet-YYYY-MM` localStorage entries.
+const MONTH_MIGRATIONS: { [fromVersion: number]: MonthMigration } = {
+  0: data => mapDays(data, (day, dateStr) => ({
+    date: dateStr,
+    startTime: '',
+    endTime: '',
+    dietaInt: 0,
+    extra: 0,
+    pernocta: 0,
+    propinas: 0,
+    ...day,
+  })),
+  // Single start/end pair becomes the first of a list of work intervals.
+  1: data => mapDays(data, ({ startTime, endTime, ...day }) => ({
+    ...day,
+    intervals: [{ startTime: startTime ?? '', endTime: endTime ?? '' }],
+  })),
+  2: data => mapDays(data, day => ({ status: 'worked', ...day })),
+  3: data => mapDays(data, day => ({ trips: [], ...day })),
+  4: data => mapDays(data, day => ({ breaks: [], ...day })),
+};
+
+export const upgradeMonthData = (data: StoredMonth, fromVersion: number): TimesheetData => {
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(`Month stored with schema ${fromVersion}, newer than supported ${SCHEMA_VERSION}`);
+  }
+
+  let upgraded = data;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    upgraded = MONTH_MIGRATIONS[version](upgraded);
+  }
+  // Each migration fills in the fields its version added.
+  return upgraded as TimesheetData;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Every account has a database of its own, so their months can never mix.
+export const openIndexedDbBackend = (accountId: string): Promise<StorageBackend> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(accountKey(DB_NAME, accountId), DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MONTHS_STORE)) {
+        db.createObjectStore(MONTHS_STORE, { keyPath: 'monthKey' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(RECEIPTS_STORE)) {
+        db.createObjectStore(RECEIPTS_STORE);
+      }
+    };
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => {
+      const db = request.result;
+
+      resolve({
+        getMonth: (monthKey) =>
+          requestToPromise<MonthRecord | undefined>(db.transaction(MONTHS_STORE).objectStore(MONTHS_STORE).get(monthKey)),
+        listMonthKeys: async () => {
+          const keys = await requestToPromise(db.transaction(MONTHS_STORE).objectStore(MONTHS_STORE).getAllKeys());
+          return keys.map(String).sort();
+        },
+        getMeta: (name) =>
+          requestToPromise<string | undefined>(db.transaction(META_STORE).objectStore(META_STORE).get(name)),
+        getReceipt: (receiptId) =>
+          requestToPromise<string | undefined>(db.transaction(RECEIPTS_STORE).objectStore(RECEIPTS_STORE).get(receiptId)),
+        listReceiptIds: async () => {
+          const keys = await requestToPromise(db.transaction(RECEIPTS_STORE).objectStore(RECEIPTS_STORE).getAllKeys());
+          return keys.map(String);
+        },
+        // Months, metadata and receipts go in one transaction so a re-key can
+        // never leave the salt and the ciphertext out of step.
+        write: ({ months, deleteMonthKeys = [], meta = {}, receipts = {}, deleteReceiptIds = [] }) =>
+          new Promise((resolveWrite, rejectWrite) => {
+            const transaction = db.transaction([MONTHS_STORE, META_STORE, RECEIPTS_STORE], 'readwrite');
+            const monthsStore = transaction.objectStore(MONTHS_STORE);
+            const metaStore = transaction.objectStore(META_STORE);
+            const receiptsStore = transaction.objectStore(RECEIPTS_STORE);
+
+            deleteMonthKeys.forEach(monthKey => monthsStore.delete(monthKey));
+            months.forEach(record => monthsStore.put(record));
+            Object.keys(meta).forEach(name => metaStore.put(meta[name], name));
+            deleteReceiptIds.forEach(receiptId => receiptsStore.delete(receiptId));
+            Object.keys(receipts).forEach(receiptId => receiptsStore.put(receipts[receiptId], receiptId));
+
+            transaction.oncomplete = () => resolveWrite();
+            transaction.onerror = () => rejectWrite(transaction.error);
+            transaction.onabort = () => rejectWrite(transaction.error);
+          }),
+      });
+    };
+  });
+
+const encryptMonth = async (key: CryptoKey, monthKey: string, data: TimesheetData): Promise<MonthRecord> => ({
+  monthKey,
+  schemaVersion: SCHEMA_VERSION,
+  payload: await encryptJson(key, data),
+  updatedAt: Date.now(),
+});
+
+const decryptMonth = async (key: CryptoKey, record: MonthRecord): Promise<TimesheetData> =>
+  upgradeMonthData(await decryptJson<TimesheetData>(key, record.payload), record.schemaVersion);
+
+const createTimesheetStore = (backend: StorageBackend, key: CryptoKey): TimesheetStore => {
+  const store: TimesheetStore = {
+    readMonth: async (monthKey) => {
+      const record = await backend.getMonth(monthKey);
+      return record ? decryptMonth(key, record) : null;
+    },
+
+    readAllMonths: async () => {
+      const months: MonthMap = {};
+      for (const monthKey of await backend.listMonthKeys()) {
+        const data = await store.readMonth(monthKey);
+        if (data) {
+          months[monthKey] = data;
+        }
+      }
+      return months;
+    },
+
+    writeMonths: async (months) => {
+      const records = await Promise.all(
+        Object.keys(months).map(monthKey => encryptMonth(key, monthKey, months[monthKey])),
+      );
+      await backend.write({ months: records });
+    },
+
+    replaceAllMonths: async (months) => {
+      const records = await Promise.all(
+        Object.keys(months).map(monthKey => encryptMonth(key, monthKey, months[monthKey])),
+      );
+      const staleKeys = (await backend.listMonthKeys()).filter(monthKey => !months[monthKey]);
+      await backend.write({ months: records, deleteMonthKeys: staleKeys });
+    },
+
+    listMonthKeys: () => backend.listMonthKeys(),
+
+    readEncryptedMeta: async <T>(name: EncryptedMetaKey) => {
+      const payload = await backend.getMeta(name);
+      return payload ? decryptJson<T>(key, payload) : null;
+    },
+
+    writeEncryptedMeta: async (name, value) => {
+      await backend.write({ months: [], meta: { [name]: await encryptJson(key, value) } });
+    },
+
+    readReceipt: async <T>(receiptId: string) => {
+      const payload = await backend.getReceipt(receiptId);
+      return payload ? decryptJson<T>(key, payload) : null;
+    },
+
+    writeReceipts: async (receipts, deleteReceiptIds) => {
+      const encrypted: { [receiptId: string]: string } = {};
+      for (const receiptId of Object.keys(receipts)) {
+        encrypted[receiptId] = await encryptJson(key, receipts[receiptId]);
+      }
+      await backend.write({ months: [], receipts: encrypted, deleteReceiptIds });
+    },
+
+    // Everything is decrypted and re-encrypted in memory first, so a failure
+    // leaves the stored months untouched.
+    rekey: async (newPin) => {
+      const newSalt = generateSalt();
+      const newKey = await deriveDataKey(newPin, newSalt);
+      const months = await store.readAllMonths();
+      const records = await Promise.all(
+        Object.keys(months).map(monthKey => encryptMonth(newKey, monthKey, months[monthKey])),
+      );
+      const meta: { [name: string]: string } = { [DATA_SALT_META_KEY]: newSalt };
+      for (const name of ENCRYPTED_META_KEYS) {
+        const value = await store.readEncryptedMeta(name);
+        if (value !== null) {
+          meta[name] = await encryptJson(newKey, value);
+        }
+      }
+      const receipts: { [receiptId: string]: string } = {};
+      for (const receiptId of await backend.listReceiptIds()) {
+        const value = await store.readReceipt(receiptId);
+        if (value !== null) {
+          receipts[receiptId] = await encryptJson(newKey, value);
+        }
+      }
+
+      await backend.write({ months: records, meta, receipts });
+      return createTimesheetStore(backend, newKey);
+    },
+  };
+
+  return store;
+};
+
+const getOrCreateDataSalt = async (backend: StorageBackend, adoptLegacySalt: boolean): Promise<string> => {
+  const stored = await backend.getMeta(DATA_SALT_META_KEY);
+  if (stored) return stored;
+
+  const salt = (adoptLegacySalt && localStorage.getItem(LEGACY_DATA_SALT_KEY)) || generateSalt();
+  await backend.write({ months: [], meta: { [DATA_SALT_META_KEY]: salt } });
+  if (adoptLegacySalt) {
+    localStorage.removeItem(LEGACY_DATA_SALT_KEY);
+  }
+  return salt;
+};
+
+// Moves `timesheet-YYYY-MM` localStorage entries (plain or encrypted) into
+// IndexedDB. A localStorage entry is only removed once its month is committed,
+// and a month that already exists in IndexedDB is never overwritten.
+const migrateLegacyMonths = async (backend: StorageBackend, key: CryptoKey) => {
+  const legacyKeys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const storageKey = localStorage.key(i);
+    if (storageKey && LEGACY_MONTH_KEY.test(storageKey)) {
+      legacyKeys.push(storageKey);
+    }
+  }
+
+  const records: MonthRecord[] = [];
+  const migratedKeys: string[] = [];
+
+  for (const storageKey of legacyKeys) {
+    const raw = localStorage.getItem(storageKey);
+    const monthKey = storageKey.replace(LEGACY_MONTH_KEY, '$1');
+    if (!raw || (await backend.getMonth(monthKey))) continue;
+
+    const data = isEncryptedPayload(raw) ? await decryptJson<TimesheetData>(key, raw) : JSON.parse(raw);
+    records.push(await encryptMonth(key, monthKey, upgradeMonthData(data, 0)));
+    migratedKeys.push(storageKey);
+  }
+
+  if (records.length === 0) return;
+
+  await backend.write({ months: records });
+  migratedKeys.forEach(storageKey => localStorage.removeItem(storageKey));
+};
+
+// Opens the account's store for an already verified PIN. Legacy localStorage
+// months predate accounts, so only the default account migrates them.
+export const unlockTimesheetStore = async (accountId: string, pin: string): Promise<TimesheetStore> => {
+  const backend = await openIndexedDbBackend(accountId);
+  const isDefaultAccount = accountId === DEFAULT_ACCOUNT.id;
+  const key = await deriveDataKey(pin, await getOrCreateDataSalt(backend, isDefaultAccount));
+  if (isDefaultAccount) {
+    await migrateLegacyMonths(backend, key);
+  }
+  return createTimesheetStore(backend, key);
+};
@@ -0,0 +1,92 @@
+export interface WorkInterval {
+  startTime: string;
+  endTime: string;
+}
+
+// A pause in the working day, given by its times or, when they were not
+// noted, by its length alone. Unpaid breaks are not working time.
+export interface WorkBreak {
+  startTime: string;
+  endTime: string;
+  minutes: number;
+  paid: boolean;
+}
+
+// One leg driven during the day. km is filled in from the odometer readings
+// when both are given, but can be typed in directly when they are not.
+export interface Trip {
+  origin: string;
+  destination: string;
+  reference: string;
+  odometerStart: number;
+  odometerEnd: number;
+  km: number;
+}
+
+export type DayStatus = 'worked' | 'vacation' | 'sick' | 'dayOff' | 'holiday' | 'training';
+
+export interface DayData {
+  date: string;
+  status: DayStatus;
+  intervals: WorkInterval[];
+  breaks: WorkBreak[];
+  trips: Trip[];
+  dietaInt: number;
+  extra: number;
+  pernocta: number;
+  propinas: number;
+}
+
+export interface TimesheetData {
+  [date: string]: DayData;
+}
+
+export interface MonthMap {
+  [monthKey: string]: TimesheetData;
+}
+
+export const createEmptyInterval = (): WorkInterval => ({ startTime: '', endTime: '' });
+
+export const createEmptyBreak = (): WorkBreak => ({ startTime: '', endTime: '', minutes: 0, paid: false });
+
+export const isTimedBreak = (workBreak: WorkBreak): boolean => Boolean(workBreak.startTime && workBreak.endTime);
+
+export const createEmptyTrip = (): Trip => ({
+  origin: '',
+  destination: '',
+  reference: '',
+  odometerStart: 0,
+  odometerEnd: 0,
+  km: 0,
+});
+
+export const getTripsKm = (trips: Trip[]): number =>
+  trips.reduce((total, trip) => total + trip.km, 0);
+
+export const formatTrips = (trips: Trip[]): string =>
+  trips
+    .map(trip => `${trip.origin || '?'} → ${trip.destination || '?'} (${trip.km} km)`)
+    .join(', ');
+
+export const formatBreaks = (breaks: WorkBreak[]): string =>
+  breaks
+    .map(workBreak => `${isTimedBreak(workBreak) ? `${workBreak.startTime}-${workBreak.endTime}` : `${workBreak.minutes} min`}${workBreak.paid ? ' (pagada)' : ''}`)
+    .join(', ');
+
+export const formatIntervals = (intervals: WorkInterval[]): string =>
+  intervals
+    .filter(interval => interval.startTime || interval.endTime)
+    .map(interval => `${interval.startTime || '?'}-${interval.endTime || '?'}`)
+    .join(', ');
+
+export const createEmptyDay = (dateStr: string): DayData => ({
+  date: dateStr,
+  status: 'worked',
+  intervals: [createEmptyInterval()],
+  breaks: [],
+  trips: [],
+  dietaInt: 0,
+  extra: 0,
+  pernocta: 0,
+  propinas: 0,
+});
@@ -3,4 +3,8 @@ import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
+  build: {
+    // Read by the service worker to cache the whole app for offline use.
+    manifest: 'build-manifest.json',
+  },
 })